@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+
+import { generateHandlerManifest } from "../compat/HandlerManifest.js";
+
+const USAGE = `Usage: mini-interaction manifest [options]
+
+Generates a module that statically imports every handler for bundled deployments.
+
+Options:
+  --commands <dir>     Commands directory (e.g. src/commands)
+  --components <dir>   Components and modals directory (e.g. src/components)
+  --out <file>         Manifest module to write (default: src/interaction-manifest.ts)`;
+
+async function main(argv: string[]): Promise<void> {
+	const { values, positionals } = parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			commands: { type: "string" },
+			components: { type: "string" },
+			out: { type: "string", default: "src/interaction-manifest.ts" },
+			help: { type: "boolean", short: "h" },
+		},
+	});
+
+	if (values.help || positionals[0] !== "manifest") {
+		console.log(USAGE);
+		if (!values.help) process.exitCode = 1;
+		return;
+	}
+
+	if (!values.commands && !values.components) {
+		throw new Error("[mini-interaction] manifest requires --commands and/or --components");
+	}
+
+	const outFile = await generateHandlerManifest({
+		commandsDirectory: values.commands,
+		componentsDirectory: values.components,
+		outFile: values.out as string,
+	});
+	console.info(`[mini-interaction] Wrote handler manifest to ${outFile}`);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});
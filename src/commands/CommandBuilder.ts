@@ -4,7 +4,9 @@ import {
 	ChannelType,
 	type APIApplicationCommandAttachmentOption,
 	type APIApplicationCommandBasicOption,
+	type APIApplicationCommandBooleanOption,
 	type APIApplicationCommandChannelOption,
+	type APIApplicationCommandIntegerOption,
 	type APIApplicationCommandMentionableOption,
 	type APIApplicationCommandNumberOption,
 	type APIApplicationCommandOption,
@@ -69,6 +71,13 @@ function assertDescription(description: string): void {
 	}
 }
 
+/** Validates that a value is a safe integer suitable for integer options. */
+function assertInteger(field: string, value: number): void {
+	if (!Number.isSafeInteger(value)) {
+		throw new RangeError(`${field} must be a safe integer. Received ${value}`);
+	}
+}
+
 /** Creates a deep copy of an option payload to avoid accidental mutation. */
 function cloneOption<T extends APIApplicationCommandOption>(option: T): T {
 	return JSON.parse(JSON.stringify(option)) as T;
@@ -415,6 +424,108 @@ class NumberOptionBuilder extends BaseCommandOptionBuilder<APIApplicationCommand
 	}
 }
 
+/** Builder for integer command options with choice, range and autocomplete support. */
+class IntegerOptionBuilder extends BaseCommandOptionBuilder<APIApplicationCommandIntegerOption> {
+	constructor() {
+		super({
+			type: ApplicationCommandOptionType.Integer,
+			name: "",
+			description: "",
+		});
+	}
+
+	/**
+	 * Adds a single integer choice for the option.
+	 */
+	addChoice(name: string, value: number): this {
+		return this.addChoices({ name, value });
+	}
+
+	/**
+	 * Adds multiple integer choice entries for the option.
+	 */
+	addChoices(...choices: APIApplicationCommandOptionChoice<number>[]): this {
+		if (choices.length === 0) {
+			return this;
+		}
+
+		if (this.data.autocomplete) {
+			throw new Error("Cannot set choices when autocomplete is enabled");
+		}
+
+		this.data.choices ??= [];
+
+		if (this.data.choices.length + choices.length > MAX_CHOICES) {
+			throw new RangeError(
+				`A maximum of ${MAX_CHOICES} choices can be set for an option`,
+			);
+		}
+
+		for (const choice of choices) {
+			assertName(choice.name, false);
+			assertInteger("Choice value", choice.value);
+			this.data.choices.push({ ...choice });
+		}
+
+		return this;
+	}
+
+	/**
+	 * Replaces the current choice set with the provided entries.
+	 */
+	setChoices(...choices: APIApplicationCommandOptionChoice<number>[]): this {
+		this.data.choices = [];
+		return this.addChoices(...choices);
+	}
+
+	/**
+	 * Enables or disables autocomplete for the integer option.
+	 */
+	setAutocomplete(autocomplete = true): this {
+		if (autocomplete && this.data.choices?.length) {
+			throw new Error(
+				"Cannot enable autocomplete when choices are already set",
+			);
+		}
+
+		this.data.autocomplete = autocomplete;
+		if (autocomplete) {
+			this.data.choices = [];
+		}
+
+		return this;
+	}
+
+	/**
+	 * Sets the minimum integer value allowed for the option.
+	 */
+	setMinValue(minValue: number): this {
+		assertInteger("minValue", minValue);
+		this.data.min_value = minValue;
+		return this;
+	}
+
+	/**
+	 * Sets the maximum integer value allowed for the option.
+	 */
+	setMaxValue(maxValue: number): this {
+		assertInteger("maxValue", maxValue);
+		this.data.max_value = maxValue;
+		return this;
+	}
+}
+
+/** Builder for boolean command options. */
+class BooleanOptionBuilder extends BaseCommandOptionBuilder<APIApplicationCommandBooleanOption> {
+	constructor() {
+		super({
+			type: ApplicationCommandOptionType.Boolean,
+			name: "",
+			description: "",
+		});
+	}
+}
+
 /** Callback type accepted by option builder helper methods for customization. */
 type OptionBuilderCallback<Builder> = (builder: Builder) => Builder | void;
 
@@ -488,6 +599,36 @@ class SubcommandBuilder extends BaseOptionBuilder<APIApplicationCommandSubcomman
 		return this;
 	}
 
+	/**
+	 * Adds an integer option configured through the supplied callback.
+	 */
+	addIntegerOption(
+		callback: OptionBuilderCallback<IntegerOptionBuilder>,
+	): this {
+		this.assertOptionLimit();
+		const option = resolveBuilder(
+			new IntegerOptionBuilder(),
+			callback,
+		) as APIApplicationCommandBasicOption;
+		this.data.options?.push(option);
+		return this;
+	}
+
+	/**
+	 * Adds a boolean option configured through the supplied callback.
+	 */
+	addBooleanOption(
+		callback: OptionBuilderCallback<BooleanOptionBuilder>,
+	): this {
+		this.assertOptionLimit();
+		const option = resolveBuilder(
+			new BooleanOptionBuilder(),
+			callback,
+		) as APIApplicationCommandBasicOption;
+		this.data.options?.push(option);
+		return this;
+	}
+
 	/**
 	 * Adds an attachment option configured through the supplied callback.
 	 */
@@ -796,6 +937,32 @@ export class CommandBuilder {
 		return this;
 	}
 
+	/**
+	 * Adds an integer option to the command definition.
+	 */
+	addIntegerOption(
+		callback: OptionBuilderCallback<IntegerOptionBuilder>,
+	): this {
+		this.assertOptionLimit();
+		const option = resolveBuilder(new IntegerOptionBuilder(), callback);
+		this.data.options ??= [];
+		this.data.options.push(option);
+		return this;
+	}
+
+	/**
+	 * Adds a boolean option to the command definition.
+	 */
+	addBooleanOption(
+		callback: OptionBuilderCallback<BooleanOptionBuilder>,
+	): this {
+		this.assertOptionLimit();
+		const option = resolveBuilder(new BooleanOptionBuilder(), callback);
+		this.data.options ??= [];
+		this.data.options.push(option);
+		return this;
+	}
+
 	/**
 	 * Adds an attachment option to the command definition.
 	 */
@@ -910,7 +1077,9 @@ export class CommandBuilder {
 
 export type {
 	AttachmentOptionBuilder,
+	BooleanOptionBuilder,
 	ChannelOptionBuilder,
+	IntegerOptionBuilder,
 	MentionableOptionBuilder,
 	NumberOptionBuilder,
 	RoleOptionBuilder,
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { ApplicationCommandOptionType } from 'discord-api-types/v10';
+import { CommandBuilder } from '../CommandBuilder.js';
+
+test('CommandBuilder serializes integer and boolean options', () => {
+  const json = new CommandBuilder()
+    .setName('purge')
+    .setDescription('Delete messages')
+    .addIntegerOption((option) => option.setName('count').setDescription('How many').setMinValue(1).setMaxValue(100).setRequired())
+    .addSubcommand((sub) =>
+      sub.setName('all').setDescription('Everything').addBooleanOption((option) => option.setName('silent').setDescription('Hide output')),
+    )
+    .toJSON();
+
+  assert.deepEqual(json.options?.[0], {
+    type: ApplicationCommandOptionType.Integer,
+    name: 'count',
+    description: 'How many',
+    min_value: 1,
+    max_value: 100,
+    required: true,
+  });
+  assert.equal((json.options?.[1] as any).options[0].type, ApplicationCommandOptionType.Boolean);
+});
+
+test('IntegerOptionBuilder rejects non-integer values and mixed choices/autocomplete', () => {
+  const builder = new CommandBuilder().setName('roll').setDescription('Roll');
+  assert.throws(() => builder.addIntegerOption((option) => option.setMinValue(1.5)), /safe integer/);
+  assert.throws(() => builder.addIntegerOption((option) => option.addChoice('half', 0.5)), /safe integer/);
+  assert.throws(
+    () => builder.addIntegerOption((option) => option.addChoice('one', 1).setAutocomplete()),
+    /Cannot enable autocomplete/,
+  );
+});
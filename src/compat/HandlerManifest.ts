@@ -0,0 +1,111 @@
+/** One statically imported handler module and the path it was generated from. */
+export type HandlerManifestEntry = {
+	/** Path relative to the project root; modal detection still uses it. */
+	filePath: string;
+	module: Record<string, unknown>;
+};
+
+/**
+ * Handler modules bundled at build time. Pass the default export of a module
+ * generated by `generateHandlerManifest` as `MiniInteraction`'s `manifest` option.
+ */
+export type HandlerManifest = {
+	commands: HandlerManifestEntry[];
+	components: HandlerManifestEntry[];
+};
+
+export type GenerateHandlerManifestOptions = {
+	commandsDirectory?: string;
+	componentsDirectory?: string;
+	/** Module to write, e.g. `src/interaction-manifest.ts`. */
+	outFile: string;
+	/** Base for relative paths. Defaults to `process.cwd()`. */
+	cwd?: string;
+};
+
+/**
+ * Writes a module that statically imports every command and component, so
+ * bundlers keep them and cold starts skip the directory scan.
+ * Returns the absolute path of the written file.
+ */
+export async function generateHandlerManifest(
+	options: GenerateHandlerManifestOptions,
+): Promise<string> {
+	const [{ writeFile, mkdir }, { default: path }] = await Promise.all([
+		import("node:fs/promises"),
+		import("node:path"),
+	]);
+	const cwd = options.cwd ?? process.cwd();
+	const outFile = path.resolve(cwd, options.outFile);
+	const outDir = path.dirname(outFile);
+
+	const collect = async (directory: string | undefined) => {
+		if (!directory) return [];
+		const files = await walkHandlerFiles(path.resolve(cwd, directory));
+		return files
+			.filter((filePath) => filePath !== outFile && isImportableModule(filePath))
+			.sort();
+	};
+	const commands = await collect(options.commandsDirectory);
+	const components = await collect(options.componentsDirectory);
+
+	const imports: string[] = [];
+	const entry = (filePath: string, index: number, kind: string) => {
+		const binding = `${kind}${index}`;
+		let specifier = path.relative(outDir, filePath).split(path.sep).join("/");
+		if (!specifier.startsWith(".")) specifier = `./${specifier}`;
+		imports.push(`import * as ${binding} from ${JSON.stringify(toRuntimeSpecifier(specifier))};`);
+		const relativePath = path.relative(cwd, filePath).split(path.sep).join("/");
+		return `\t\t{ filePath: ${JSON.stringify(relativePath)}, module: ${binding} },`;
+	};
+	const commandEntries = commands.map((filePath, index) => entry(filePath, index, "command"));
+	const componentEntries = components.map((filePath, index) => entry(filePath, index, "component"));
+
+	const source = [
+		"// Generated by `mini-interaction manifest`. Do not edit.",
+		...imports,
+		"",
+		"export default {",
+		"\tcommands: [",
+		...commandEntries,
+		"\t],",
+		"\tcomponents: [",
+		...componentEntries,
+		"\t],",
+		"};",
+		"",
+	].join("\n");
+
+	await mkdir(outDir, { recursive: true });
+	await writeFile(outFile, source, "utf8");
+	return outFile;
+}
+
+export async function walkHandlerFiles(directory: string): Promise<string[]> {
+	const [{ readdir }, { default: path }] = await Promise.all([
+		import("node:fs/promises"),
+		import("node:path"),
+	]);
+	const entries = await readdir(directory, { withFileTypes: true });
+	const results = await Promise.all(
+		entries.map(async (entry) => {
+			const resolvedPath = path.join(directory, entry.name);
+			if (entry.isDirectory()) {
+				return walkHandlerFiles(resolvedPath);
+			}
+			return [resolvedPath];
+		}),
+	);
+
+	return results.flat();
+}
+
+export function isImportableModule(filePath: string): boolean {
+	if (filePath.endsWith(".d.ts")) return false;
+	return /\.(ts|mts|js|mjs|cjs)$/i.test(filePath);
+}
+
+/** TypeScript sources are imported with the extension they compile to, as `nodenext` requires. */
+function toRuntimeSpecifier(specifier: string): string {
+	return specifier.replace(/\.ts$/i, ".js").replace(/\.mts$/i, ".mjs");
+}
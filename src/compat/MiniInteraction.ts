@@ -1,22 +1,16 @@
-import { readFile, readdir } from "node:fs/promises";
-import path from "node:path";
-import { pathToFileURL } from "node:url";
 import { waitUntil as vercelWaitUntil } from "@vercel/functions";
 
 import {
 	ApplicationCommandType,
 	InteractionResponseType,
 	InteractionType,
-	type APIApplicationCommandInteraction,
 	type APIInteraction,
 	type APIInteractionResponse,
-	type APIMessageComponentInteraction,
-	type APIModalSubmitInteraction,
 } from "discord-api-types/v10";
 
 import type {
 	AppCommandHandler,
-	CommandHandler,
+	AutocompleteHandler,
 	ComponentInteraction,
 	InteractionCommand,
 	InteractionComponent,
@@ -25,16 +19,35 @@ import type {
 	SlashCommandHandler,
 	UserCommandHandler,
 } from "../types/Commands.js";
-import { createCommandInteraction } from "../utils/CommandInteractionOptions.js";
-import {
-	createAppCommandInteraction,
-	createMessageContextMenuInteraction,
-	createUserContextMenuInteraction,
-} from "../utils/ContextMenuInteraction.js";
-import { createMessageComponentInteraction } from "../utils/MessageComponentInteraction.js";
-import { createModalSubmitInteraction } from "../utils/ModalSubmitInteraction.js";
 import { DiscordRestClient } from "../core/http/DiscordRestClient.js";
-import { verifyAndParseInteraction } from "../core/interactions/InteractionVerifier.js";
+import { InteractionContext } from "../core/interactions/InteractionContext.js";
+import type { InteractionSessionOptions } from "../core/interactions/InteractionSession.js";
+import { InteractionRouter } from "../router/InteractionRouter.js";
+import {
+	isImportableModule,
+	walkHandlerFiles,
+	type HandlerManifest,
+} from "./HandlerManifest.js";
+import type { CustomIdPattern } from "../router/CustomIdRouteTable.js";
+import type { RouterMiddleware } from "../router/middleware.js";
+import {
+	cooldown,
+	MemoryCooldownStore,
+	type CooldownHandler,
+	type CooldownStore,
+} from "../router/cooldown.js";
+import {
+	preconditions,
+	type PreconditionFailureHandler,
+} from "../router/preconditions.js";
+import {
+	createFetchInteractionHandler,
+	handleInteractionRequest,
+	type FetchInteractionHandler,
+	type InitialResponseCommitter,
+	type InteractionRequestHandlerOptions,
+} from "../core/interactions/InteractionRequestHandler.js";
+import type { InteractionReplayStore } from "../core/interactions/InteractionReplayStore.js";
 import {
 	generateOAuthUrl,
 	getDiscordUser,
@@ -66,19 +79,32 @@ export type MiniInteractionOptions = {
 	debug?: boolean;
 	cwd?: string;
 	publicKey?: string;
+	/** Maximum age of `x-signature-timestamp` in seconds. Defaults to 300. */
+	maxClockSkewSeconds?: number;
+	/** Rejects repeated interaction IDs; `true` uses an in-memory LRU store. */
+	replayStore?: InteractionReplayStore | boolean;
 	applicationId?: string;
 	token?: string;
 	guildId?: string;
+	/** Buckets for module `cooldown` fields. Defaults to an in-memory store; use `MiniDatabaseCooldownStore` on serverless. */
+	cooldownStore?: CooldownStore;
+	/** Replaces the default ephemeral "try again" reply for module cooldowns. */
+	onCooldown?: CooldownHandler;
+	/** Replaces the default ephemeral denial for module `preconditions`. */
+	onPreconditionFailure?: PreconditionFailureHandler;
+	/**
+	 * Handler modules generated at build time by `mini-interaction manifest`. When
+	 * set, `commandsDirectory` and `componentsDirectory` are not scanned.
+	 */
+	manifest?: HandlerManifest;
+	/** Enables `ctx.session` for router handlers. */
+	sessions?: InteractionSessionOptions;
 };
 
 type LoadedModules = {
 	commands: InteractionCommand[];
-	components: InteractionComponent[];
-	modals: InteractionModal[];
 };
 
-type ResponseState = "pending" | "deferred" | "responded";
-
 type OAuthPageTemplate = {
 	htmlFile: string;
 };
@@ -91,8 +117,6 @@ type OAuthCallbackTemplates = {
 	serverError: OAuthPageTemplate;
 };
 
-type InitialResponseCommitter = (response: APIInteractionResponse) => boolean;
-
 type NodeRequest = {
 	body?: unknown;
 	rawBody?: string | Uint8Array | Buffer;
@@ -113,23 +137,24 @@ type NodeResponse = {
 
 export class MiniInteraction {
 	private readonly options: MiniInteractionOptions;
-	private readonly projectRoot: string;
 	private readonly rest: DiscordRestClient;
-	private readonly responseStates = new Map<string, ResponseState>();
+	private readonly interactionRouter = new InteractionRouter();
+	private readonly cooldownStore: CooldownStore;
+	/** Tracks `onAutocomplete` registrations so loaded modules do not override them. */
+	private readonly autocompleteHandlers = new Map<string, Set<string | undefined>>();
 	private loadedModulesPromise?: Promise<LoadedModules>;
 
 	constructor(options: MiniInteractionOptions = {}) {
 		this.options = options;
-		this.projectRoot = path.resolve(options.cwd ?? process.cwd());
 
 		const applicationId =
 			options.applicationId ??
-			process.env.DISCORD_APPLICATION_ID ??
-			process.env.DISCORD_APP_ID;
+			readEnv("DISCORD_APPLICATION_ID") ??
+			readEnv("DISCORD_APP_ID");
 		const token =
 			options.token ??
-			process.env.DISCORD_BOT_TOKEN ??
-			process.env.DISCORD_TOKEN;
+			readEnv("DISCORD_BOT_TOKEN") ??
+			readEnv("DISCORD_TOKEN");
 
 		if (!applicationId || !token) {
 			throw new Error(
@@ -138,89 +163,24 @@ export class MiniInteraction {
 		}
 
 		this.rest = new DiscordRestClient({ applicationId, token });
+		this.cooldownStore = options.cooldownStore ?? new MemoryCooldownStore();
 	}
 
 	createNodeHandler() {
 		return async (req: NodeRequest, res: NodeResponse): Promise<void> => {
-			let responseSent = false;
-			let resolveInitialCommit: (() => void) | undefined;
-			const initialCommitPromise = new Promise<void>((resolve) => {
-				resolveInitialCommit = resolve;
-			});
-			const commitInitialResponse: InitialResponseCommitter = (response) => {
-				if (responseSent) return false;
-				this.sendJson(res, 200, response);
-				responseSent = true;
-				resolveInitialCommit?.();
-				return true;
-			};
-
 			try {
 				const body = await this.readRawBody(req);
-				const signature = this.getHeader(req.headers, "x-signature-ed25519");
-				const timestamp = this.getHeader(req.headers, "x-signature-timestamp");
-				const publicKey = this.options.publicKey ?? process.env.DISCORD_PUBLIC_KEY;
-
-				if (!publicKey) {
-					this.sendJson(res, 500, {
-						error: "[MiniInteraction] Missing DISCORD_PUBLIC_KEY.",
-					});
-					return;
-				}
-
-				if (!signature || !timestamp) {
-					this.sendJson(res, 401, {
-						error: "[MiniInteraction] Missing Discord signature headers.",
-					});
-					return;
-				}
-
-				const interaction = await verifyAndParseInteraction({
-					body,
-					signature,
-					timestamp,
-					publicKey,
-				});
-
-				if (interaction.type === InteractionType.Ping) {
-					this.sendJson(res, 200, { type: InteractionResponseType.Pong });
-					return;
-				}
-
-				const dispatchPromise = this.dispatch(interaction, commitInitialResponse);
-				const backgroundPromise = dispatchPromise.catch((error) => {
-					if (this.options.debug) {
-						console.error(
-							"[MiniInteraction] Background interaction processing failed",
-							error,
-						);
-					}
-				});
-				const settled = await Promise.race([
-					dispatchPromise.then(
-						(response) => ({ kind: "result" as const, response }),
-						(error) => ({ kind: "error" as const, error }),
-					),
-					initialCommitPromise.then(() => ({ kind: "committed" as const })),
-				]);
-
-				if (settled.kind === "committed") {
-					this.scheduleBackgroundTask(backgroundPromise);
-					return;
-				}
-
-				if (settled.kind === "error") {
-					throw settled.error;
-				}
-
-				const response = settled.response;
-				if (!responseSent) {
-					this.sendJson(
-						res,
-						200,
-						response ?? this.getDefaultInitialResponse(interaction),
-					);
-					responseSent = true;
+				const result = await handleInteractionRequest(
+					{
+						body,
+						signature: this.getHeader(req.headers, "x-signature-ed25519"),
+						timestamp: this.getHeader(req.headers, "x-signature-timestamp"),
+					},
+					this.getRequestHandlerOptions(),
+				);
+				this.sendJson(res, result.status, result.body);
+				if (result.background) {
+					this.scheduleBackgroundTask(result.background);
 				}
 			} catch (error) {
 				const message =
@@ -228,13 +188,73 @@ export class MiniInteraction {
 				if (this.options.debug) {
 					console.error("[MiniInteraction] createNodeHandler failed", error);
 				}
-				if (!responseSent) {
-					this.sendJson(res, 500, { error: message });
-				}
+				this.sendJson(res, 500, { error: message });
 			}
 		};
 	}
 
+	/**
+	 * Creates a web-standard `Request -> Response` handler for edge runtimes.
+	 * Pass the runtime execution context (`{ waitUntil }`) so deferred work
+	 * keeps running after the initial response is returned.
+	 */
+	createFetchHandler(): FetchInteractionHandler {
+		return createFetchInteractionHandler(this.getRequestHandlerOptions());
+	}
+
+	/**
+	 * Registers an autocomplete handler for a command, optionally scoped to one option.
+	 * Option-specific handlers take precedence over the command-wide handler and over
+	 * the `autocomplete` field of a loaded command module.
+	 */
+	onAutocomplete(commandName: string, handler: AutocompleteHandler): this;
+	onAutocomplete(commandName: string, optionName: string, handler: AutocompleteHandler): this;
+	onAutocomplete(
+		commandName: string,
+		optionNameOrHandler: string | AutocompleteHandler,
+		maybeHandler?: AutocompleteHandler,
+	): this {
+		const optionName =
+			typeof optionNameOrHandler === "string" ? optionNameOrHandler : undefined;
+		const handler =
+			typeof optionNameOrHandler === "function" ? optionNameOrHandler : maybeHandler;
+		if (!handler) {
+			throw new Error("[MiniInteraction] onAutocomplete requires a handler");
+		}
+
+		let options = this.autocompleteHandlers.get(commandName);
+		if (!options) {
+			options = new Set();
+			this.autocompleteHandlers.set(commandName, options);
+		}
+		options.add(optionName);
+		if (optionName === undefined) {
+			this.interactionRouter.onAutocomplete(commandName, (interaction) => handler(interaction));
+		} else {
+			this.interactionRouter.onAutocomplete(commandName, optionName, (interaction) =>
+				handler(interaction),
+			);
+		}
+		return this;
+	}
+
+	/**
+	 * Adds router middleware that runs before every handler, including the ones
+	 * loaded from `commandsDirectory` and `componentsDirectory`.
+	 */
+	use(...middleware: RouterMiddleware[]): this {
+		this.interactionRouter.use(...middleware);
+		return this;
+	}
+
+	/**
+	 * The router that loaded modules are registered on. Routes added here (pattern
+	 * custom IDs, subcommands, per-route middleware) share the same lifecycle.
+	 */
+	get router(): InteractionRouter {
+		return this.interactionRouter;
+	}
+
 	async registerMetadata(
 		botToken: string,
 		metadata: RoleConnectionMetadataInput[],
@@ -263,8 +283,8 @@ export class MiniInteraction {
 		const payload = modules.commands.map((command) => this.resolveCommandPayload(command));
 		const applicationId =
 			this.options.applicationId ??
-			process.env.DISCORD_APPLICATION_ID ??
-			process.env.DISCORD_APP_ID;
+			readEnv("DISCORD_APPLICATION_ID") ??
+			readEnv("DISCORD_APP_ID");
 
 		if (!applicationId) {
 			throw new Error(
@@ -275,8 +295,8 @@ export class MiniInteraction {
 		const token =
 			tokenOverride ??
 			this.options.token ??
-			process.env.DISCORD_BOT_TOKEN ??
-			process.env.DISCORD_TOKEN;
+			readEnv("DISCORD_BOT_TOKEN") ??
+			readEnv("DISCORD_TOKEN");
 
 		if (!token) {
 			throw new Error(
@@ -285,7 +305,7 @@ export class MiniInteraction {
 		}
 
 		const rest = new DiscordRestClient({ applicationId, token });
-		const guildId = this.options.guildId ?? process.env.DISCORD_GUILD_ID;
+		const guildId = this.options.guildId ?? readEnv("DISCORD_GUILD_ID");
 		const route = guildId
 			? `/applications/${applicationId}/guilds/${guildId}/commands`
 			: `/applications/${applicationId}/commands`;
@@ -348,7 +368,7 @@ export class MiniInteraction {
 			try {
 				const requestUrl = new URL(
 					req.url ?? "/",
-					process.env.DISCORD_REDIRECT_URI ?? "http://localhost",
+					readEnv("DISCORD_REDIRECT_URI") ?? "http://localhost",
 				);
 				const error = requestUrl.searchParams.get("error");
 				const code = requestUrl.searchParams.get("code");
@@ -389,218 +409,58 @@ export class MiniInteraction {
 		};
 	}
 
-	private async dispatch(
-		interaction: APIInteraction,
-		commitInitialResponse?: InitialResponseCommitter,
-	): Promise<APIInteractionResponse | void> {
-		const modules = await this.loadModules();
-
-		if (interaction.type === InteractionType.ApplicationCommand) {
-			const command = modules.commands.find(
-				(candidate) => this.getCommandName(candidate) === interaction.data.name,
-			);
-			if (!command) return undefined;
-			return this.executeCommandHandler(
-				command.handler,
-				interaction,
-				commitInitialResponse,
-			);
-		}
-
-		if (interaction.type === InteractionType.MessageComponent) {
-			const component = modules.components.find(
-				(candidate) => candidate.customId === interaction.data.custom_id,
-			);
-			if (!component) return undefined;
-			return this.executeComponentHandler(
-				component.handler,
-				interaction,
-				commitInitialResponse,
-			);
-		}
-
-		if (interaction.type === InteractionType.ModalSubmit) {
-			const modal = modules.modals.find(
-				(candidate) => candidate.customId === interaction.data.custom_id,
-			);
-			if (!modal) return undefined;
-			return this.executeModalHandler(
-				modal.handler,
-				interaction,
-				commitInitialResponse,
-			);
-		}
-
-		return undefined;
-	}
-
-	private async executeCommandHandler(
-		handler: CommandHandler,
-		interaction: APIApplicationCommandInteraction,
-		commitInitialResponse?: InitialResponseCommitter,
-	): Promise<APIInteractionResponse | void> {
-		return this.runWithResponseLifecycle(
-			interaction,
-			async (helpers) => {
-				switch (interaction.data.type) {
-					case ApplicationCommandType.ChatInput:
-						return (handler as SlashCommandHandler)(
-							createCommandInteraction(interaction as never, helpers),
-						);
-					case ApplicationCommandType.User:
-						return (handler as UserCommandHandler)(
-							createUserContextMenuInteraction(interaction as never, helpers),
-						);
-					case ApplicationCommandType.Message:
-						return (handler as MessageCommandHandler)(
-							createMessageContextMenuInteraction(interaction as never, helpers),
-						);
-					default:
-						if ((interaction.data as { type?: number }).type === ApplicationCommandType.PrimaryEntryPoint) {
-							return (handler as AppCommandHandler)(
-								createAppCommandInteraction(interaction as never, helpers),
-							);
-						}
-						throw new Error(
-							`[MiniInteraction] Unsupported application command type: ${String((interaction.data as { type?: number }).type)}`,
-						);
-				}
+	/**
+	 * Returns the verification and dispatch options shared by every request
+	 * handler. Framework adapters (`toExpressMiddleware`, `toFastifyPlugin`, ...)
+	 * accept the client directly and call this for you.
+	 */
+	getRequestHandlerOptions(): InteractionRequestHandlerOptions {
+		return {
+			publicKey: this.options.publicKey ?? readEnv("DISCORD_PUBLIC_KEY"),
+			maxClockSkewSeconds: this.options.maxClockSkewSeconds,
+			replayStore: this.options.replayStore,
+			dispatch: (interaction, commitInitialResponse) =>
+				this.dispatch(interaction, commitInitialResponse),
+			getDefaultResponse: (interaction) =>
+				this.getDefaultInitialResponse(interaction),
+			scheduleBackgroundTask: (promise) => this.scheduleBackgroundTask(promise),
+			onError: (error, phase) => {
+				if (!this.options.debug) return;
+				console.error(
+					phase === "background"
+						? "[MiniInteraction] Background interaction processing failed"
+						: "[MiniInteraction] Interaction request failed",
+					error,
+				);
 			},
-			commitInitialResponse,
-		);
+		};
 	}
 
-	private async executeComponentHandler(
-		handler: InteractionComponent["handler"],
-		interaction: APIMessageComponentInteraction,
+	private async dispatch(
+		interaction: APIInteraction,
 		commitInitialResponse?: InitialResponseCommitter,
 	): Promise<APIInteractionResponse | void> {
-		return this.runWithResponseLifecycle(
-			interaction,
-			async (helpers) =>
-				handler(
-					createMessageComponentInteraction(
-						interaction,
-						helpers,
-					) as ComponentInteraction,
-				),
-			commitInitialResponse,
-		);
-	}
+		await this.loadModules();
 
-	private async executeModalHandler(
-		handler: InteractionModal["handler"],
-		interaction: APIModalSubmitInteraction,
-		commitInitialResponse?: InitialResponseCommitter,
-	): Promise<APIInteractionResponse | void> {
-		return this.runWithResponseLifecycle(
+		const timeoutConfig = this.options.timeoutConfig;
+		const debugLogging = this.options.debug || timeoutConfig?.enableResponseDebugLogging;
+		const ctx = new InteractionContext({
 			interaction,
-			async (helpers) =>
-				handler(createModalSubmitInteraction(interaction, helpers)),
+			rest: this.rest,
 			commitInitialResponse,
-		);
-	}
-
-	private async runWithResponseLifecycle<T extends APIInteraction>(
-		interaction: T,
-		executor: (
-			helpers: {
-				canRespond: (interactionId: string) => boolean;
-				trackResponse: (
-					interactionId: string,
-					token: string,
-					state: "deferred" | "responded",
-				) => void;
-				onAck: (response: APIInteractionResponse) => void;
-				sendFollowUp: (
-					token: string,
-					response: APIInteractionResponse,
-					messageId?: string,
-				) => Promise<void>;
-			},
-		) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void,
-		commitInitialResponse?: InitialResponseCommitter,
-	): Promise<APIInteractionResponse | void> {
-		let ackResponse: APIInteractionResponse | undefined;
-		let initialResponseCommitted = false;
-		let followUpSent = false;
-		let committedInitialResponse: APIInteractionResponse | undefined;
-		const helpers = {
-			// Legacy helper contracts use canRespond for both initial acknowledgements
-			// and later editReply/followUp calls. The compat layer does not currently
-			// track Discord token expiry, so we only block on real expiry outside of
-			// this helper and allow the wrapped interaction methods to complete.
-			canRespond: (_interactionId: string) => true,
-			trackResponse: (
-				interactionId: string,
-				_token: string,
-				state: "deferred" | "responded",
-			) => {
-				this.responseStates.set(interactionId, state);
+			autoAck: {
+				enabled: timeoutConfig?.autoDeferSlowOperations === true,
+				delayMs: Math.min(2500, timeoutConfig?.initialResponseTimeout ?? 2500),
 			},
-			onAck: (response: APIInteractionResponse) => {
-				ackResponse = response;
-				if (!initialResponseCommitted && commitInitialResponse?.(response)) {
-					initialResponseCommitted = true;
-					committedInitialResponse = response;
-				}
-			},
-			sendFollowUp: async (
-				token: string,
-				response: APIInteractionResponse,
-				messageId?: string,
-			) => {
-				// If the initial interaction response has not been sent yet, collapse the
-				// deferred/edit flow back into a single immediate response instead of
-				// calling the webhook endpoints early.
-				if (!initialResponseCommitted) {
-					ackResponse = response;
-					this.responseStates.set(interaction.id, "responded");
-					return;
-				}
-
-				const responseData = "data" in response ? response.data ?? {} : {};
-				if (messageId === "@original") {
-					await this.rest.editOriginal(token, responseData);
-					followUpSent = true;
-					return;
-				}
-				await this.rest.createFollowup(token, responseData);
-				followUpSent = true;
-			},
-		};
-
-		const autoDeferMs = Math.min(
-			2500,
-			this.options.timeoutConfig?.initialResponseTimeout ?? 2500,
-		);
-		const autoDeferTimer =
-			this.options.timeoutConfig?.autoDeferSlowOperations === true
-				? setTimeout(() => {
-						if (initialResponseCommitted) return;
-						if (this.responseStates.get(interaction.id)) return;
-						if (!helpers.canRespond(interaction.id)) return;
-						if (this.options.debug || this.options.timeoutConfig?.enableResponseDebugLogging) {
-							console.warn(
-								`[MiniInteraction] Auto-deferred interaction ${interaction.id} after ${autoDeferMs}ms.`,
-							);
-						}
-						const deferredResponse =
-							this.getDefaultInitialResponse(interaction);
-						ackResponse = deferredResponse;
-						helpers.trackResponse(interaction.id, interaction.token, "deferred");
-						if (!initialResponseCommitted && commitInitialResponse?.(deferredResponse)) {
-							initialResponseCommitted = true;
-							committedInitialResponse = deferredResponse;
-						}
-					}, autoDeferMs)
-				: undefined;
+			onDiagnostic: debugLogging ? (message) => console.warn(message) : undefined,
+			sessions: this.options.sessions,
+		});
 
-		const timeoutWarningMs = this.options.timeoutConfig?.initialResponseTimeout;
+		const timeoutWarningMs = timeoutConfig?.initialResponseTimeout;
 		const timeoutWarningTimer =
-			this.options.timeoutConfig?.enableTimeoutWarnings && timeoutWarningMs
+			timeoutConfig?.enableTimeoutWarnings && timeoutWarningMs
 				? setTimeout(() => {
-						if (this.responseStates.get(interaction.id)) return;
+						if (ctx.hasResponded) return;
 						console.warn(
 							`[MiniInteraction] Interaction ${interaction.id} exceeded ${timeoutWarningMs}ms without a response.`,
 						);
@@ -608,30 +468,8 @@ export class MiniInteraction {
 				: undefined;
 
 		try {
-			const result = await executor(helpers);
-			if (this.options.debug || this.options.timeoutConfig?.enableResponseDebugLogging) {
-				console.debug(
-					`[MiniInteraction] Interaction ${interaction.id} completed with ${result ? "explicit" : "fallback"} response.`,
-				);
-			}
-			if (
-				initialResponseCommitted &&
-				result &&
-				!followUpSent &&
-				committedInitialResponse &&
-				this.isDeferredResponse(committedInitialResponse) &&
-				!this.isDeferredResponse(result)
-			) {
-				const responseData = "data" in result ? result.data ?? {} : {};
-				await this.rest.editOriginal(interaction.token, responseData);
-			}
-			if (initialResponseCommitted) {
-				return undefined;
-			}
-			initialResponseCommitted = true;
-			return result ?? ackResponse;
+			return await this.interactionRouter.dispatch(interaction, ctx);
 		} finally {
-			if (autoDeferTimer) clearTimeout(autoDeferTimer);
 			if (timeoutWarningTimer) clearTimeout(timeoutWarningTimer);
 		}
 	}
@@ -643,23 +481,44 @@ export class MiniInteraction {
 		return this.loadedModulesPromise;
 	}
 
+	/**
+	 * Imports the configured directories (or reads the build-time manifest) and
+	 * registers every module on {@link router}.
+	 */
 	private async discoverModules(): Promise<LoadedModules> {
-		const commands = this.options.commandsDirectory
-			? await this.loadDirectory(this.options.commandsDirectory)
-			: [];
-		const components = this.options.componentsDirectory
-			? await this.loadDirectory(this.options.componentsDirectory)
-			: [];
-
-		const loaded: LoadedModules = {
-			commands: [],
-			components: [],
-			modals: [],
+		const { commands, components } = this.options.manifest
+			? this.readManifest(this.options.manifest)
+			: {
+					commands: this.options.commandsDirectory
+						? await this.loadDirectory(this.options.commandsDirectory)
+						: [],
+					components: this.options.componentsDirectory
+						? await this.loadDirectory(this.options.componentsDirectory)
+						: [],
+				};
+
+		const loaded: LoadedModules = { commands: [] };
+		const commandFiles = new Map<string, string>();
+		const customIdFiles = new Map<string, string>();
+		const claim = (registry: Map<string, string>, key: string, label: string, filePath: string) => {
+			const existing = registry.get(key);
+			if (existing !== undefined) {
+				throw new Error(
+					`[MiniInteraction] Duplicate ${label} registered in ${existing} and ${filePath}`,
+				);
+			}
+			registry.set(key, filePath);
 		};
 
 		for (const { filePath, value } of commands) {
 			if (this.isInteractionCommand(value)) {
+				const name = this.getCommandName(value);
+				if (name) {
+					const type = this.resolveCommandPayload(value).type ?? ApplicationCommandType.ChatInput;
+					claim(commandFiles, `${type}:${name}`, `command "${name}"`, filePath);
+				}
 				loaded.commands.push(value);
+				this.registerCommand(value);
 			} else if (this.options.debug) {
 				console.warn(`[MiniInteraction] Ignored non-command module: ${filePath}`);
 			}
@@ -673,22 +532,98 @@ export class MiniInteraction {
 				continue;
 			}
 
-			if (this.looksLikeModalFile(filePath)) {
-				loaded.modals.push(value as InteractionModal);
+			const kind = this.resolveHandlerKind(value, filePath);
+			const pattern = this.describeCustomIdPattern(value.customId);
+			claim(customIdFiles, `${kind}:${pattern}`, `${kind} custom ID "${pattern}"`, filePath);
+
+			if (kind === "modal") {
+				const { handler } = value as InteractionModal;
+				this.interactionRouter.onModal(value.customId, (interaction, _ctx, params) =>
+					handler(interaction, params),
+				);
 			} else {
-				loaded.components.push(value as InteractionComponent);
+				const component = value as InteractionComponent;
+				const { handler } = component;
+				this.interactionRouter.onComponent(
+					value.customId,
+					this.createRouteMiddleware(`component:${pattern}`, component),
+					(interaction, _ctx, params) =>
+						handler(interaction as ComponentInteraction, params),
+				);
 			}
 		}
 
 		return loaded;
 	}
 
+	private registerCommand(command: InteractionCommand): void {
+		const name = this.getCommandName(command);
+		if (!name) return;
+
+		const handler = command.handler;
+		const middleware = this.createRouteMiddleware(`command:${name}`, command);
+		switch (this.resolveCommandPayload(command).type ?? ApplicationCommandType.ChatInput) {
+			case ApplicationCommandType.User:
+				this.interactionRouter.onUserCommand(name, middleware, (interaction) =>
+					(handler as UserCommandHandler)(interaction),
+				);
+				break;
+			case ApplicationCommandType.Message:
+				this.interactionRouter.onMessageCommand(name, middleware, (interaction) =>
+					(handler as MessageCommandHandler)(interaction),
+				);
+				break;
+			case ApplicationCommandType.PrimaryEntryPoint:
+				this.interactionRouter.onEntryPoint(name, middleware, (interaction) =>
+					(handler as AppCommandHandler)(interaction),
+				);
+				break;
+			default:
+				this.interactionRouter.onCommand(name, middleware, (interaction) =>
+					(handler as SlashCommandHandler)(interaction),
+				);
+		}
+
+		// Handlers registered with onAutocomplete take precedence over the module field.
+		const autocomplete = command.autocomplete;
+		if (autocomplete && !this.autocompleteHandlers.get(name)?.has(undefined)) {
+			this.interactionRouter.onAutocomplete(name, (interaction) => autocomplete(interaction));
+		}
+	}
+
+	/** Preconditions run first so denied interactions do not use up a cooldown. */
+	private createRouteMiddleware(
+		bucket: string,
+		module: Pick<InteractionCommand, "cooldown" | "preconditions">,
+	): RouterMiddleware[] {
+		const middleware: RouterMiddleware[] = [];
+		if (module.preconditions?.length) {
+			middleware.push(
+				preconditions(module.preconditions, {
+					onFailure: this.options.onPreconditionFailure,
+				}),
+			);
+		}
+		if (module.cooldown) {
+			middleware.push(
+				cooldown({
+					...module.cooldown,
+					bucket,
+					store: this.cooldownStore,
+					onCooldown: this.options.onCooldown,
+				}),
+			);
+		}
+		return middleware;
+	}
+
 	private async loadDirectory(directory: string): Promise<Array<{ filePath: string; value: unknown }>> {
-		const absoluteDirectory = path.resolve(this.projectRoot, directory);
-		const files = await this.walkFiles(absoluteDirectory);
+		const { pathToFileURL } = await import("node:url");
+		const absoluteDirectory = await this.resolveProjectPath(directory);
+		const files = await walkHandlerFiles(absoluteDirectory);
 		const loaded = await Promise.all(
 			files
-				.filter((filePath) => this.isImportableModule(filePath))
+				.filter((filePath) => isImportableModule(filePath))
 				.map(async (filePath) => ({
 					filePath,
 					values: this.normalizeModuleExports(
@@ -702,6 +637,20 @@ export class MiniInteraction {
 		);
 	}
 
+	private readManifest(manifest: HandlerManifest): {
+		commands: Array<{ filePath: string; value: unknown }>;
+		components: Array<{ filePath: string; value: unknown }>;
+	} {
+		const flatten = (entries: HandlerManifest["commands"]) =>
+			entries.flatMap(({ filePath, module }) =>
+				this.normalizeModuleExports(module).map((value) => ({ filePath, value })),
+			);
+		return {
+			commands: flatten(manifest.commands),
+			components: flatten(manifest.components),
+		};
+	}
+
 	private normalizeModuleExports(moduleValue: Record<string, unknown>): unknown[] {
 		const values: unknown[] = [];
 		if ("default" in moduleValue) {
@@ -713,7 +662,8 @@ export class MiniInteraction {
 			values.push(...this.normalizeExportValue(value));
 		}
 
-		return values;
+		// `export default handler` next to `export const handler` is one module, not a duplicate.
+		return [...new Set(values)];
 	}
 
 	private normalizeExportValue(value: unknown): unknown[] {
@@ -721,21 +671,6 @@ export class MiniInteraction {
 		return [value];
 	}
 
-	private async walkFiles(directory: string): Promise<string[]> {
-		const entries = await readdir(directory, { withFileTypes: true });
-		const results = await Promise.all(
-			entries.map(async (entry) => {
-				const resolvedPath = path.join(directory, entry.name);
-				if (entry.isDirectory()) {
-					return this.walkFiles(resolvedPath);
-				}
-				return [resolvedPath];
-			}),
-		);
-
-		return results.flat();
-	}
-
 	private scheduleBackgroundTask(promise: Promise<unknown>): void {
 		try {
 			vercelWaitUntil(promise);
@@ -745,6 +680,13 @@ export class MiniInteraction {
 	}
 
 	private getDefaultInitialResponse(interaction: APIInteraction): APIInteractionResponse {
+		if (interaction.type === InteractionType.ApplicationCommandAutocomplete) {
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: { choices: [] },
+			};
+		}
+
 		if (interaction.type === InteractionType.MessageComponent) {
 			return { type: InteractionResponseType.DeferredMessageUpdate };
 		}
@@ -752,18 +694,6 @@ export class MiniInteraction {
 		return { type: InteractionResponseType.DeferredChannelMessageWithSource };
 	}
 
-	private isDeferredResponse(response: APIInteractionResponse): boolean {
-		return (
-			response.type === InteractionResponseType.DeferredChannelMessageWithSource ||
-			response.type === InteractionResponseType.DeferredMessageUpdate
-		);
-	}
-
-	private isImportableModule(filePath: string): boolean {
-		if (filePath.endsWith(".d.ts")) return false;
-		return /\.(ts|mts|js|mjs|cjs)$/i.test(filePath);
-	}
-
 	private isInteractionCommand(value: unknown): value is InteractionCommand {
 		return (
 			typeof value === "object" &&
@@ -800,15 +730,54 @@ export class MiniInteraction {
 			value !== null &&
 			"customId" in value &&
 			"handler" in value &&
-			typeof (value as { customId: unknown }).customId === "string" &&
+			this.isCustomIdPattern((value as { customId: unknown }).customId) &&
 			typeof (value as { handler: unknown }).handler === "function"
 		);
 	}
 
+	private isCustomIdPattern(value: unknown): boolean {
+		return (
+			typeof value === "string" ||
+			value instanceof RegExp ||
+			(typeof value === "object" &&
+				value !== null &&
+				typeof (value as { prefix?: unknown }).prefix === "string")
+		);
+	}
+
+	private describeCustomIdPattern(pattern: CustomIdPattern): string {
+		if (typeof pattern === "string" || pattern instanceof RegExp) {
+			return String(pattern);
+		}
+		return `${pattern.prefix}*`;
+	}
+
+	/**
+	 * Uses the module's explicit `kind` when set; otherwise falls back to the
+	 * file name and warns, since a misplaced modal would silently never match.
+	 */
+	private resolveHandlerKind(
+		value: InteractionComponent | InteractionModal,
+		filePath: string,
+	): "component" | "modal" {
+		if (value.kind === "component" || value.kind === "modal") {
+			return value.kind;
+		}
+
+		const kind = this.looksLikeModalFile(filePath) ? "modal" : "component";
+		if (this.options.debug) {
+			console.warn(
+				`[MiniInteraction] ${filePath} does not declare a kind; treating it as a ${kind} based on its path. ` +
+					`Set kind: "${kind}" or wrap it in define${kind === "modal" ? "Modal" : "Component"}().`,
+			);
+		}
+		return kind;
+	}
+
 	private looksLikeModalFile(filePath: string): boolean {
 		const normalized = filePath.toLowerCase();
 		return (
-			normalized.includes(`${path.sep}modals${path.sep}`) ||
+			/[\\/]modals[\\/]/.test(normalized) ||
 			normalized.endsWith(".modal.ts") ||
 			normalized.endsWith(".modal.js") ||
 			normalized.includes("_modal.") ||
@@ -866,10 +835,20 @@ export class MiniInteraction {
 	}
 
 	private async loadHtmlFile(htmlFile: string): Promise<string> {
-		const absolutePath = path.resolve(this.projectRoot, htmlFile);
+		const { readFile } = await import("node:fs/promises");
+		const absolutePath = await this.resolveProjectPath(htmlFile);
 		return readFile(absolutePath, "utf8");
 	}
 
+	/**
+	 * Node built-ins are imported lazily so the fetch handler can run on edge
+	 * runtimes that only load this module without touching the filesystem.
+	 */
+	private async resolveProjectPath(target: string): Promise<string> {
+		const { default: path } = await import("node:path");
+		return path.resolve(this.options.cwd ?? process.cwd(), target);
+	}
+
 	private async renderOAuthTemplate(
 		res: NodeResponse,
 		template: OAuthPageTemplate,
@@ -894,10 +873,10 @@ export class MiniInteraction {
 	} {
 		const appId =
 			this.options.applicationId ??
-			process.env.DISCORD_APPLICATION_ID ??
-			process.env.DISCORD_APP_ID;
-		const appSecret = process.env.DISCORD_CLIENT_SECRET ?? process.env.DISCORD_APPLICATION_SECRET;
-		const redirectUri = process.env.DISCORD_REDIRECT_URI;
+			readEnv("DISCORD_APPLICATION_ID") ??
+			readEnv("DISCORD_APP_ID");
+		const appSecret = readEnv("DISCORD_CLIENT_SECRET") ?? readEnv("DISCORD_APPLICATION_SECRET");
+		const redirectUri = readEnv("DISCORD_REDIRECT_URI");
 
 		if (!appId || !appSecret || !redirectUri) {
 			throw new Error(
@@ -924,3 +903,7 @@ export class MiniInteraction {
 }
 
 export const LegacyMiniInteractionAdapter = MiniInteraction;
+
+function readEnv(name: string): string | undefined {
+	return typeof process !== "undefined" ? process.env?.[name] : undefined;
+}
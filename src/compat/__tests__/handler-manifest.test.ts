@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import test from "node:test";
+import { InteractionResponseType, InteractionType } from "discord-api-types/v10";
+
+import { generateHandlerManifest } from "../HandlerManifest.js";
+import { MiniInteraction } from "../MiniInteraction.js";
+
+test("generated manifests replace the runtime directory scan", async () => {
+	const root = await mkdtemp(path.join(tmpdir(), "mini-manifest-"));
+	try {
+		await mkdir(path.join(root, "commands", "fun"), { recursive: true });
+		await mkdir(path.join(root, "components", "modals"), { recursive: true });
+		await writeFile(
+			path.join(root, "commands", "fun", "ping.mjs"),
+			"export default { data: { name: 'ping' }, handler: (interaction) => interaction.reply({ content: 'pong' }) };\n",
+		);
+		await writeFile(
+			path.join(root, "components", "modals", "feedback.mjs"),
+			"export const feedback = { customId: 'feedback', handler: () => undefined };\n",
+		);
+		await writeFile(path.join(root, "commands", "types.d.ts"), "export {};\n");
+
+		const outFile = await generateHandlerManifest({
+			commandsDirectory: "commands",
+			componentsDirectory: "components",
+			outFile: "generated/manifest.mjs",
+			cwd: root,
+		});
+		const source = await readFile(outFile, "utf8");
+		assert.match(source, /import \* as command0 from "\.\.\/commands\/fun\/ping\.mjs";/);
+		assert.match(source, /\{ filePath: "components\/modals\/feedback\.mjs", module: component0 \}/);
+		assert.doesNotMatch(source, /types\.d\.ts/);
+
+		const { default: manifest } = await import(pathToFileURL(outFile).href);
+		const mini = new MiniInteraction({
+			applicationId: "app",
+			token: "token",
+			manifest,
+			// Would throw if scanned: the manifest takes precedence.
+			commandsDirectory: path.join(root, "missing"),
+		});
+		const response = await mini.getRequestHandlerOptions().dispatch({
+			id: String((BigInt(Date.now()) - 1420070400000n) << 22n),
+			application_id: "app",
+			type: InteractionType.ApplicationCommand,
+			token: "tok",
+			version: 1,
+			data: { id: "c", name: "ping", type: 1 },
+		} as never, () => false);
+
+		assert.deepEqual(response, {
+			type: InteractionResponseType.ChannelMessageWithSource,
+			data: { content: "pong" },
+		});
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { InteractionType } from "discord-api-types/v10";
+
+import type { HandlerManifest } from "../HandlerManifest.js";
+import { MiniInteraction } from "../MiniInteraction.js";
+import { defineComponent, defineModal } from "../../types/Commands.js";
+
+const freshId = () => String((BigInt(Date.now()) - 1420070400000n) << 22n);
+
+function load(manifest: HandlerManifest) {
+	const mini = new MiniInteraction({ applicationId: "app", token: "token", manifest });
+	return mini.getRequestHandlerOptions().dispatch({
+		id: freshId(),
+		application_id: "app",
+		type: InteractionType.ApplicationCommand,
+		token: "tok",
+		version: 1,
+		data: { id: "c", name: "ping", type: 1 },
+	} as never, () => false);
+}
+
+test("explicit kinds override file names and modules without a kind warn in debug mode", async (t) => {
+	const warn = t.mock.method(console, "warn", () => undefined);
+	const submitted: string[] = [];
+	const modal = defineModal({
+		customId: "feedback",
+		handler: () => void submitted.push("modal"),
+	});
+	const manifest = {
+		commands: [],
+		components: [
+			// Lives outside `modals/`, but the declared kind wins.
+			{ filePath: "components/feedback.mjs", module: { default: modal, modal } },
+			{ filePath: "components/legacy.mjs", module: { default: { customId: "legacy", handler: () => undefined } } },
+		],
+	};
+
+	for (const debug of [false, true]) {
+		const mini = new MiniInteraction({ applicationId: "app", token: "token", manifest, debug });
+		await mini.getRequestHandlerOptions().dispatch({
+			id: freshId(),
+			application_id: "app",
+			type: InteractionType.ModalSubmit,
+			token: "tok",
+			version: 1,
+			data: { custom_id: "feedback", components: [] },
+		} as never, () => false);
+	}
+
+	assert.deepEqual(submitted, ["modal", "modal"]);
+	assert.equal(warn.mock.callCount(), 1);
+	assert.match(String(warn.mock.calls[0]?.arguments[0]), /components\/legacy\.mjs does not declare a kind/);
+});
+
+test("duplicate custom IDs and command names fail with both file paths", async () => {
+	const handler = () => undefined;
+	await assert.rejects(
+		load({
+			commands: [],
+			components: [
+				{ filePath: "components/a.mjs", module: { default: defineComponent({ customId: "confirm", handler }) } },
+				{ filePath: "components/b.mjs", module: { default: defineComponent({ customId: "confirm", handler }) } },
+				{ filePath: "components/c.mjs", module: { default: defineModal({ customId: "confirm", handler }) } },
+			],
+		}),
+		/Duplicate component custom ID "confirm" registered in components\/a\.mjs and components\/b\.mjs/,
+	);
+
+	await assert.rejects(
+		load({
+			commands: [
+				{ filePath: "commands/ping.mjs", module: { default: { data: { name: "ping" }, handler } } },
+				// Context menus may reuse a slash command's name.
+				{ filePath: "commands/ping-user.mjs", module: { default: { data: { name: "ping", type: 2 }, handler } } },
+				{ filePath: "commands/pong.mjs", module: { default: { data: { name: "ping" }, handler } } },
+			],
+			components: [],
+		}),
+		/Duplicate command "ping" registered in commands\/ping\.mjs and commands\/pong\.mjs/,
+	);
+});
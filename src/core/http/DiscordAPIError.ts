@@ -0,0 +1,161 @@
+import { getRouteTemplate } from './RateLimitManager.js';
+
+/** The request that failed, as passed to `DiscordRestClient.request`. */
+export type DiscordRequestDetails = {
+  method: string;
+  path: string;
+  body?: RequestInit['body'];
+};
+
+/** JSON body Discord returns for failed requests. */
+export type DiscordErrorBody = {
+  code: number;
+  message: string;
+  errors?: Record<string, unknown>;
+};
+
+/** One invalid field from a Discord error's nested `errors` object. */
+export type DiscordFieldError = {
+  /** Dotted path into the request body, e.g. `embeds[0].description`. */
+  path: string;
+  code: string;
+  message: string;
+};
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY = /token|secret|password|authorization/i;
+
+/**
+ * A non-2xx response from Discord. Subclassed by {@link DiscordAPIError} when
+ * the body is a Discord error object and by {@link RateLimitError} for 429s.
+ */
+export class DiscordHTTPError extends Error {
+  readonly method: string;
+  /** The requested path with webhook and interaction tokens removed. */
+  readonly path: string;
+  /** The path with IDs replaced, e.g. `/channels/:id/messages`; stable for grouping errors. */
+  readonly route: string;
+  /** The request body with token-like fields redacted. */
+  readonly requestBody: unknown;
+
+  constructor(
+    readonly status: number,
+    request: DiscordRequestDetails,
+    readonly responseBody: string,
+  ) {
+    const path = redactPath(request.path);
+    super(`[DiscordRestClient] ${request.method} ${path} failed: ${status}${responseBody ? ` ${responseBody}` : ''}`);
+    this.name = 'DiscordHTTPError';
+    this.method = request.method;
+    this.path = path;
+    this.route = getRouteTemplate(request.path);
+    this.requestBody = redactRequestBody(request.body);
+  }
+}
+
+/** A Discord error response with a JSON error `code`, e.g. 10008 Unknown Message or 50013 Missing Permissions. */
+export class DiscordAPIError extends DiscordHTTPError {
+  readonly code: number;
+  /** Every invalid field from the nested `errors` object. */
+  readonly fieldErrors: DiscordFieldError[];
+
+  constructor(status: number, request: DiscordRequestDetails, responseBody: string, readonly rawError: DiscordErrorBody) {
+    super(status, request, responseBody);
+    this.name = 'DiscordAPIError';
+    this.code = rawError.code;
+    this.fieldErrors = flattenFieldErrors(rawError.errors);
+  }
+}
+
+/** A 429 that was still limited once the client's retries ran out. */
+export class RateLimitError extends DiscordHTTPError {
+  /** Milliseconds Discord asked to wait. */
+  readonly retryAfterMs: number;
+  readonly global: boolean;
+  /** `user`, `global` or `shared`, from `X-RateLimit-Scope`. */
+  readonly scope?: string;
+
+  constructor(request: DiscordRequestDetails, responseBody: string, headers: Headers) {
+    super(429, request, responseBody);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = Number(headers.get('retry-after') ?? '0') * 1000;
+    this.global = headers.get('x-ratelimit-global') === 'true';
+    this.scope = headers.get('x-ratelimit-scope') ?? undefined;
+  }
+}
+
+/** Builds the most specific error for a failed response whose body was read as `responseBody`. */
+export function createDiscordError(
+  request: DiscordRequestDetails,
+  response: Pick<Response, 'status' | 'headers'>,
+  responseBody: string,
+): DiscordHTTPError {
+  if (response.status === 429) {
+    return new RateLimitError(request, responseBody, response.headers);
+  }
+  const rawError = parseErrorBody(responseBody);
+  return rawError
+    ? new DiscordAPIError(response.status, request, responseBody, rawError)
+    : new DiscordHTTPError(response.status, request, responseBody);
+}
+
+/** Flattens `{ embeds: { 0: { description: { _errors: [...] } } } }` into `embeds[0].description` entries. */
+export function flattenFieldErrors(errors: unknown, path = ''): DiscordFieldError[] {
+  if (typeof errors !== 'object' || errors === null) return [];
+
+  const result: DiscordFieldError[] = [];
+  for (const [key, value] of Object.entries(errors)) {
+    if (key === '_errors' && Array.isArray(value)) {
+      for (const error of value as Array<{ code?: unknown; message?: unknown }>) {
+        result.push({ path, code: String(error.code ?? ''), message: String(error.message ?? '') });
+      }
+      continue;
+    }
+    const childPath = /^\d+$/.test(key) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+    result.push(...flattenFieldErrors(value, childPath));
+  }
+  return result;
+}
+
+function parseErrorBody(responseBody: string): DiscordErrorBody | undefined {
+  try {
+    const parsed = JSON.parse(responseBody) as Partial<DiscordErrorBody> | null;
+    return typeof parsed?.code === 'number' ? (parsed as DiscordErrorBody) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Replaces the token in webhook and interaction paths, keeping IDs for debugging. */
+export function redactPath(path: string): string {
+  return path.replace(/^\/(webhooks|interactions)\/([^/]+)\/[^/?]+/, '/$1/$2/:token');
+}
+
+function redactRequestBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return redactJson(body);
+  if (body instanceof FormData) {
+    const entries: Record<string, unknown> = {};
+    for (const [key, value] of body) {
+      entries[key] = typeof value === 'string' ? redactJson(value) : `[File ${value.name}]`;
+    }
+    return entries;
+  }
+  return `[${body.constructor?.name ?? typeof body}]`;
+}
+
+function redactJson(text: string): unknown {
+  try {
+    return redactValue(JSON.parse(text));
+  } catch {
+    return text;
+  }
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, SECRET_KEY.test(key) ? REDACTED : redactValue(entry)]),
+  );
+}
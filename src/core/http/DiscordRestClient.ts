@@ -1,4 +1,3 @@
-import { setTimeout as sleep } from 'node:timers/promises';
 import type {
   APIChannel,
   APIMessage,
@@ -15,6 +14,10 @@ import {
   type DiscordStartThreadOptions,
 } from '../messages/message-payloads.js';
 import { DiscordWebhook } from '../webhooks/DiscordWebhook.js';
+import { sleep } from './abort.js';
+import { createDiscordError, RateLimitError, redactPath } from './DiscordAPIError.js';
+import { RateLimitManager } from './RateLimitManager.js';
+import { ExponentialBackoffRetryPolicy, type RetryContext, type RetryPolicy } from './RetryPolicy.js';
 
 type FetchLike = typeof fetch;
 
@@ -22,79 +25,127 @@ export type DiscordRestClientOptions = {
   token: string;
   applicationId: string;
   apiBaseUrl?: string;
+  /** Retries for the default {@link ExponentialBackoffRetryPolicy}; ignored when `retryPolicy` is set. */
   maxRetries?: number;
+  /** Decides whether and when failed attempts are retried. */
+  retryPolicy?: RetryPolicy;
+  /** Aborts an attempt that has not finished within this many milliseconds. No limit by default. */
+  timeoutMs?: number;
   fetchImplementation?: FetchLike;
+  /** Share one manager between clients using the same bot token. Defaults to a manager per client. */
+  rateLimits?: RateLimitManager;
+};
+
+export type DiscordRequestInit = RequestInit & {
+  /** Sends the bot token. Webhook and interaction-token routes pass `false`. */
+  authenticated?: boolean;
+  /** Overrides the client's `timeoutMs` for this request. */
+  timeoutMs?: number;
+  /** Overrides the client's retry policy for this request. */
+  retryPolicy?: RetryPolicy;
 };
 
 export class DiscordRestClient {
   private readonly fetchImpl: FetchLike;
   private readonly baseUrl: string;
-  private readonly maxRetries: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimits: RateLimitManager;
 
   constructor(private readonly options: DiscordRestClientOptions) {
     this.fetchImpl = options.fetchImplementation ?? fetch;
     this.baseUrl = options.apiBaseUrl ?? 'https://discord.com/api/v10';
-    this.maxRetries = options.maxRetries ?? 3;
+    this.retryPolicy =
+      options.retryPolicy ?? new ExponentialBackoffRetryPolicy({ maxRetries: options.maxRetries ?? 3 });
+    this.rateLimits = options.rateLimits ?? new RateLimitManager();
   }
 
-  async request<T>(
-    path: string,
-    init: RequestInit & { authenticated?: boolean } = {},
-  ): Promise<T> {
-    let lastError: unknown;
-    const { authenticated = true, ...requestInit } = init;
-    for (let attempt = 0; attempt <= this.maxRetries; attempt += 1) {
-      let response: Response;
+  /**
+   * Sends an API request, retrying failures the retry policy allows. Failed
+   * responses throw `DiscordAPIError`, `RateLimitError` or `DiscordHTTPError`;
+   * aborting `signal` rejects with its reason, whether queued or in flight.
+   */
+  async request<T>(path: string, init: DiscordRequestInit = {}): Promise<T> {
+    const {
+      authenticated = true,
+      timeoutMs = this.options.timeoutMs,
+      retryPolicy = this.retryPolicy,
+      signal: callerSignal,
+      ...requestInit
+    } = init;
+    const signal = callerSignal ?? undefined;
+    const method = requestInit.method ?? 'GET';
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt += 1) {
+      // Aborted by the caller's signal or the timer, both while queued and in flight.
+      const controller = new AbortController();
+      const abort = () => controller.abort(signal?.reason);
+      if (signal?.aborted) abort();
+      signal?.addEventListener('abort', abort, { once: true });
+      let timedOut = false;
+      const timer =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, timeoutMs);
+
+      let retry: RetryContext;
       try {
-        response = await this.fetchImpl(`${this.baseUrl}${path}`, {
-          ...requestInit,
-          headers: {
-            ...(authenticated ? { Authorization: `Bot ${this.options.token}` } : {}),
-            ...getDefaultContentTypeHeader(requestInit.body),
-            ...(requestInit.headers ?? {}),
-          },
-        });
-      } catch (error) {
-        lastError = this.createRequestError(path, requestInit.method, error);
-        if (attempt < this.maxRetries) {
-          await sleep(150 * (attempt + 1));
-          continue;
-        }
-        break;
-      }
-
-      if (response.status === 429) {
-        if (attempt < this.maxRetries) {
-          const retryAfter = Number(response.headers.get('retry-after') ?? '1');
-          await sleep(Math.ceil(retryAfter * 1000));
-          continue;
-        }
-
-        lastError = new Error(
-          `[DiscordRestClient] ${requestInit.method ?? 'GET'} ${path} failed: 429`,
+        const response = await this.rateLimits.send(
+          method,
+          path,
+          () =>
+            this.fetchImpl(`${this.baseUrl}${path}`, {
+              ...requestInit,
+              signal: controller.signal,
+              headers: {
+                ...(authenticated ? { Authorization: `Bot ${this.options.token}` } : {}),
+                ...getDefaultContentTypeHeader(requestInit.body),
+                ...(requestInit.headers ?? {}),
+              },
+            }),
+          { global: authenticated, signal: controller.signal },
         );
-        break;
-      }
-
-      if (response.ok) {
-        if (response.status === 204) return undefined as T;
-        const responseText = await response.text();
-        if (!responseText) return undefined as T;
-        return JSON.parse(responseText) as T;
-      }
+        const responseText = response.status === 204 ? '' : await response.text();
+        if (response.ok) {
+          return (responseText ? JSON.parse(responseText) : undefined) as T;
+        }
 
-      if (response.status >= 500 && attempt < this.maxRetries) {
-        await sleep(150 * (attempt + 1));
-        continue;
+        const error = createDiscordError({ method, path, body: requestInit.body }, response, responseText);
+        retry = {
+          method,
+          path,
+          attempt,
+          elapsedMs: Date.now() - startedAt,
+          status: response.status,
+          retryAfterMs: error instanceof RateLimitError ? error.retryAfterMs : undefined,
+          error,
+        };
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        retry = {
+          method,
+          path,
+          attempt,
+          elapsedMs: Date.now() - startedAt,
+          error: timedOut
+            ? new Error(`[DiscordRestClient] ${method} ${redactPath(path)} timed out after ${timeoutMs}ms`, {
+                cause: error,
+              })
+            : this.createRequestError(path, method, error),
+        };
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
       }
 
-      const errorBody = await response.text();
-      lastError = new Error(
-        `[DiscordRestClient] ${requestInit.method ?? 'GET'} ${path} failed: ${response.status}${errorBody ? ` ${errorBody}` : ''}`,
-      );
-      break;
+      const delay = retryPolicy.getRetryDelay(retry);
+      if (delay === undefined) throw retry.error;
+      // 429s are held back by the rate-limit manager until `retry-after` has passed.
+      if (delay > 0) await sleep(delay, signal);
     }
-    throw lastError instanceof Error ? lastError : new Error('[DiscordRestClient] unknown request failure');
   }
 
   private createRequestError(path: string, method: string | undefined, error: unknown): Error {
@@ -102,7 +153,7 @@ export class DiscordRestClient {
       error instanceof Error ? error.message : String(error);
 
     return new Error(
-      `[DiscordRestClient] ${method ?? 'GET'} ${path} failed: ${message}`,
+      `[DiscordRestClient] ${method ?? 'GET'} ${redactPath(path)} failed: ${message}`,
       { cause: error instanceof Error ? error : undefined },
     );
   }
@@ -123,6 +174,14 @@ export class DiscordRestClient {
     });
   }
 
+  createInteractionResponse(interactionId: string, interactionToken: string, body: unknown): Promise<unknown> {
+    return this.request(`/interactions/${interactionId}/${interactionToken}/callback`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      authenticated: false,
+    });
+  }
+
   async createFollowupMessage(
     interactionToken: string,
     options: BaseDiscordMessageOptions,
@@ -137,24 +196,70 @@ export class DiscordRestClient {
       },
     );
 
-    return new DiscordSentMessage(this, message);
+    return new DiscordSentMessage(this, message, { id: this.options.applicationId, token: interactionToken });
   }
 
-  async editOriginalMessage(
+  editOriginalMessage(
     interactionToken: string,
     options: BaseDiscordMessageOptions,
+  ): Promise<DiscordSentMessage> {
+    return this.editWebhookMessage(this.options.applicationId, interactionToken, '@original', options);
+  }
+
+  getOriginalMessage(interactionToken: string): Promise<DiscordSentMessage> {
+    return this.getWebhookMessage(this.options.applicationId, interactionToken, '@original');
+  }
+
+  deleteOriginalMessage(interactionToken: string): Promise<void> {
+    return this.deleteWebhookMessage(this.options.applicationId, interactionToken, '@original');
+  }
+
+  getFollowupMessage(interactionToken: string, messageId: string): Promise<DiscordSentMessage> {
+    return this.getWebhookMessage(this.options.applicationId, interactionToken, messageId);
+  }
+
+  editFollowupMessage(
+    interactionToken: string,
+    messageId: string,
+    options: BaseDiscordMessageOptions,
+  ): Promise<DiscordSentMessage> {
+    return this.editWebhookMessage(this.options.applicationId, interactionToken, messageId, options);
+  }
+
+  deleteFollowupMessage(interactionToken: string, messageId: string): Promise<void> {
+    return this.deleteWebhookMessage(this.options.applicationId, interactionToken, messageId);
+  }
+
+  /** Messages returned by the webhook methods edit and delete through the same webhook. */
+  async getWebhookMessage(webhookId: string, token: string, messageId: string): Promise<DiscordSentMessage> {
+    const message = await this.request<APIMessage>(`/webhooks/${webhookId}/${token}/messages/${messageId}`, {
+      authenticated: false,
+    });
+
+    return new DiscordSentMessage(this, message, { id: webhookId, token });
+  }
+
+  async editWebhookMessage(
+    webhookId: string,
+    token: string,
+    messageId: string,
+    options: BaseDiscordMessageOptions,
   ): Promise<DiscordSentMessage> {
     const requestInit = createMessageRequestInit(options);
-    const message = await this.request<APIMessage>(
-      `/webhooks/${this.options.applicationId}/${interactionToken}/messages/@original`,
-      {
-        method: 'PATCH',
-        ...requestInit,
-        authenticated: false,
-      },
-    );
+    const message = await this.request<APIMessage>(`/webhooks/${webhookId}/${token}/messages/${messageId}`, {
+      method: 'PATCH',
+      ...requestInit,
+      authenticated: false,
+    });
 
-    return new DiscordSentMessage(this, message);
+    return new DiscordSentMessage(this, message, { id: webhookId, token });
+  }
+
+  deleteWebhookMessage(webhookId: string, token: string, messageId: string): Promise<void> {
+    return this.request<void>(`/webhooks/${webhookId}/${token}/messages/${messageId}`, {
+      method: 'DELETE',
+      authenticated: false,
+    });
   }
 
   async sendMessage(options: DiscordSendMessageOptions): Promise<DiscordSentMessage> {
@@ -182,10 +287,59 @@ export class DiscordRestClient {
         rate_limit_per_user: body.rateLimitPerUser,
         name: body.name,
       }),
-      headers: reason ? { 'X-Audit-Log-Reason': reason } : undefined,
+      headers: auditLogHeaders(reason),
+    });
+  }
+
+  async getMessage(channelId: string, messageId: string): Promise<DiscordSentMessage> {
+    const message = await this.request<APIMessage>(`/channels/${channelId}/messages/${messageId}`);
+    return new DiscordSentMessage(this, message);
+  }
+
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    options: BaseDiscordMessageOptions,
+  ): Promise<DiscordSentMessage> {
+    const requestInit = createMessageRequestInit(options);
+    const message = await this.request<APIMessage>(`/channels/${channelId}/messages/${messageId}`, {
+      method: 'PATCH',
+      ...requestInit,
+    });
+
+    return new DiscordSentMessage(this, message);
+  }
+
+  deleteMessage(channelId: string, messageId: string, reason?: string): Promise<void> {
+    return this.request<void>(`/channels/${channelId}/messages/${messageId}`, {
+      method: 'DELETE',
+      headers: auditLogHeaders(reason),
+    });
+  }
+
+  pinMessage(channelId: string, messageId: string, reason?: string): Promise<void> {
+    return this.request<void>(`/channels/${channelId}/messages/pins/${messageId}`, {
+      method: 'PUT',
+      headers: auditLogHeaders(reason),
     });
   }
 
+  unpinMessage(channelId: string, messageId: string, reason?: string): Promise<void> {
+    return this.request<void>(`/channels/${channelId}/messages/pins/${messageId}`, {
+      method: 'DELETE',
+      headers: auditLogHeaders(reason),
+    });
+  }
+
+  /** Publishes a message in an announcement channel to the channels following it. */
+  async crosspostMessage(channelId: string, messageId: string): Promise<DiscordSentMessage> {
+    const message = await this.request<APIMessage>(`/channels/${channelId}/messages/${messageId}/crosspost`, {
+      method: 'POST',
+    });
+
+    return new DiscordSentMessage(this, message);
+  }
+
   addReaction(
     channelId: string,
     messageId: string,
@@ -199,6 +353,29 @@ export class DiscordRestClient {
     );
   }
 
+  /** Removes the bot's own reaction, or `userId`'s when given. */
+  removeReaction(
+    channelId: string,
+    messageId: string,
+    reaction: DiscordReaction,
+    userId?: string,
+  ): Promise<void> {
+    return this.request<void>(
+      `/channels/${channelId}/messages/${messageId}/reactions/${encodeDiscordReaction(reaction)}/${userId ?? '@me'}`,
+      {
+        method: 'DELETE',
+      },
+    );
+  }
+
+  /** Removes every reaction, or only those for `reaction` when given. */
+  clearReactions(channelId: string, messageId: string, reaction?: DiscordReaction): Promise<void> {
+    const suffix = reaction ? `/${encodeDiscordReaction(reaction)}` : '';
+    return this.request<void>(`/channels/${channelId}/messages/${messageId}/reactions${suffix}`, {
+      method: 'DELETE',
+    });
+  }
+
   webhook(id: string, token: string): DiscordWebhook {
     return new DiscordWebhook(this, id, token);
   }
@@ -217,6 +394,11 @@ function getDefaultContentTypeHeader(body: RequestInit['body']): HeadersInit {
   return body instanceof FormData ? {} : { 'Content-Type': 'application/json' };
 }
 
+/** Discord reads the audit-log reason URL-encoded, which also keeps non-ASCII text valid in a header. */
+function auditLogHeaders(reason?: string): Record<string, string> | undefined {
+  return reason ? { 'X-Audit-Log-Reason': encodeURIComponent(reason) } : undefined;
+}
+
 function encodeDiscordReaction(reaction: DiscordReaction): string {
   if (typeof reaction !== 'string') {
     return encodeURIComponent(reaction.id ? `${reaction.name}:${reaction.id}` : reaction.name);
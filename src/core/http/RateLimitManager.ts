@@ -0,0 +1,170 @@
+import { abortable, sleep } from './abort.js';
+
+/** Identifies the rate-limit bucket a request falls into before Discord reports its hash. */
+export type RateLimitRoute = {
+  /** Method and path with IDs replaced, e.g. `DELETE /channels/:id/messages/:id`. */
+  route: string;
+  /** The channel, guild, webhook or interaction the limit is scoped to. */
+  majorParameter: string;
+};
+
+export type RateLimitManagerOptions = {
+  /** Idle buckets are swept once this many are tracked. Defaults to 10 000. */
+  maxBuckets?: number;
+  now?: () => number;
+};
+
+export type RateLimitSendOptions = {
+  /** Unauthenticated webhook and interaction requests are exempt from the bot's global limit. */
+  global?: boolean;
+  /** Gives up the place in the queue; the request is then never sent. */
+  signal?: AbortSignal;
+};
+
+type RateLimitBucket = {
+  /** Requests left in the current window; `Infinity` until Discord reports a limit. */
+  remaining: number;
+  resetAt: number;
+  /** Settles once every request queued in this bucket so far has released its slot. */
+  tail: Promise<void>;
+  pending: number;
+};
+
+const MAJOR_PARAMETER = /^\/(?:channels|guilds|webhooks|interactions)\/([^/]+)(?:\/([^/?]+))?/;
+
+/**
+ * Maps a request to its route template and major parameter. Webhook and
+ * interaction tokens belong to the major parameter; every other ID is templated.
+ */
+export function getRateLimitRoute(method: string, path: string): RateLimitRoute {
+  const [pathname] = path.split('?');
+  const match = MAJOR_PARAMETER.exec(pathname);
+  const tokenScoped = pathname.startsWith('/webhooks/') || pathname.startsWith('/interactions/');
+  const majorParameter = match ? (tokenScoped && match[2] ? `${match[1]}/${match[2]}` : match[1]) : 'global';
+
+  return { route: `${method.toUpperCase()} ${getRouteTemplate(pathname)}`, majorParameter };
+}
+
+/** Replaces IDs, tokens and emoji in `path` with placeholders, e.g. `/webhooks/:id/:token`. */
+export function getRouteTemplate(path: string): string {
+  return path
+    .split('?')[0]
+    .replace(/^\/(webhooks|interactions)\/[^/]+\/[^/]+/, '/$1/:id/:token')
+    .replace(/^\/(channels|guilds)\/[^/]+/, '/$1/:id')
+    .replace(/\/reactions\/[^/]+/, '/reactions/:reaction')
+    .replace(/\/\d{16,20}(?=\/|$)/g, '/:id');
+}
+
+/**
+ * Queues requests per Discord rate-limit bucket. Routes are mapped to the
+ * bucket hashes Discord reports in `X-RateLimit-Bucket`, so routes sharing a
+ * bucket also share its queue. Requests wait pre-emptively once a bucket is
+ * exhausted, and a global 429 pauses every authenticated request.
+ */
+export class RateLimitManager {
+  private readonly routeHashes = new Map<string, string>();
+  private readonly buckets = new Map<string, RateLimitBucket>();
+  private readonly maxBuckets: number;
+  private readonly now: () => number;
+  private globalResetAt = 0;
+
+  constructor(options: RateLimitManagerOptions = {}) {
+    this.maxBuckets = options.maxBuckets ?? 10_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Runs `send` once its bucket has capacity and records the limits from the
+   * response. Requests in the same bucket are sent one at a time.
+   */
+  async send(
+    method: string,
+    path: string,
+    send: () => Promise<Response>,
+    options: RateLimitSendOptions = {},
+  ): Promise<Response> {
+    const { route, majorParameter } = getRateLimitRoute(method, path);
+    const bucket = this.getBucket(`${this.routeHashes.get(route) ?? route}:${majorParameter}`);
+
+    const previous = bucket.tail;
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    // An aborted request leaves the queue at once, but the next one still waits for those ahead of it.
+    bucket.tail = previous.then(() => released);
+    bucket.pending += 1;
+
+    try {
+      await abortable(previous, options.signal);
+      await this.waitForCapacity(bucket, options.global !== false, options.signal);
+      const response = await send();
+      this.update(route, majorParameter, bucket, response);
+      return response;
+    } finally {
+      bucket.pending -= 1;
+      release();
+    }
+  }
+
+  private async waitForCapacity(bucket: RateLimitBucket, global: boolean, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      if (bucket.resetAt <= now) {
+        bucket.remaining = Infinity;
+      }
+      const waitUntil = Math.max(
+        global ? this.globalResetAt : 0,
+        bucket.remaining <= 0 ? bucket.resetAt : 0,
+      );
+      if (waitUntil <= now) break;
+      await sleep(waitUntil - now, signal);
+    }
+    bucket.remaining -= 1;
+  }
+
+  private update(route: string, majorParameter: string, bucket: RateLimitBucket, response: Response): void {
+    const { headers } = response;
+    const now = this.now();
+
+    const hash = headers.get('x-ratelimit-bucket');
+    if (hash && this.routeHashes.get(route) !== hash) {
+      this.routeHashes.set(route, hash);
+      // Later requests for this route join the queue of any route already sharing the hash.
+      const key = `${hash}:${majorParameter}`;
+      if (!this.buckets.has(key)) this.buckets.set(key, bucket);
+    }
+
+    const remaining = headers.get('x-ratelimit-remaining');
+    const resetAfter = headers.get('x-ratelimit-reset-after');
+    if (remaining !== null) bucket.remaining = Number(remaining);
+    if (resetAfter !== null) bucket.resetAt = now + Number(resetAfter) * 1000;
+
+    if (response.status !== 429) return;
+
+    const retryAfterMs = Number(headers.get('retry-after') ?? resetAfter ?? '1') * 1000;
+    if (headers.get('x-ratelimit-global') === 'true') {
+      this.globalResetAt = Math.max(this.globalResetAt, now + retryAfterMs);
+      return;
+    }
+    // `shared` limits belong to the resource rather than this bot, but requests
+    // to it fail the same way until `retry-after` passes.
+    bucket.remaining = 0;
+    bucket.resetAt = Math.max(bucket.resetAt, now + retryAfterMs);
+  }
+
+  private getBucket(key: string): RateLimitBucket {
+    let bucket = this.buckets.get(key);
+    if (bucket) return bucket;
+
+    if (this.buckets.size >= this.maxBuckets) {
+      const now = this.now();
+      for (const [candidate, { pending, resetAt }] of this.buckets) {
+        if (pending === 0 && resetAt <= now) this.buckets.delete(candidate);
+      }
+    }
+    bucket = { remaining: Infinity, resetAt: 0, tail: Promise.resolve(), pending: 0 };
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
@@ -0,0 +1,80 @@
+/** What went wrong with the attempt a {@link RetryPolicy} is asked about. */
+export type RetryContext = {
+  method: string;
+  path: string;
+  /** Attempts made so far, starting at 1. */
+  attempt: number;
+  /** Milliseconds since the first attempt started. */
+  elapsedMs: number;
+  /** Response status; absent for transport failures and timeouts. */
+  status?: number;
+  /** The error thrown if the attempt is not retried. */
+  error: unknown;
+  /** Delay Discord asked for on a 429; the rate-limit manager waits it out before the retry is sent. */
+  retryAfterMs?: number;
+};
+
+export interface RetryPolicy {
+  /** Milliseconds to wait before the next attempt, or `undefined` to give up. */
+  getRetryDelay(context: RetryContext): number | undefined;
+}
+
+export type ExponentialBackoffOptions = {
+  /** Retries after the first attempt. Defaults to 3. */
+  maxRetries?: number;
+  /** Delay before the first retry. Defaults to 150ms and doubles per attempt. */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay. Defaults to 5 seconds. */
+  maxDelayMs?: number;
+  /** Stop once a retry would start this long after the first attempt. Defaults to 30 seconds. */
+  maxElapsedMs?: number;
+  /** Statuses retried besides 429. Defaults to 500, 502, 503 and 504. */
+  retryableStatuses?: Iterable<number>;
+  /**
+   * Retries POSTs after transport failures and 5xx responses, which may have
+   * been processed and would then run twice. Defaults to `false`; 429s are
+   * always retried since Discord rejected them before doing anything.
+   */
+  retryNonIdempotent?: boolean;
+  /** Source of jitter in `[0, 1)`. */
+  random?: () => number;
+};
+
+/** Exponential backoff with full jitter. */
+export class ExponentialBackoffRetryPolicy implements RetryPolicy {
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxElapsedMs: number;
+  private readonly retryableStatuses: Set<number>;
+  private readonly retryNonIdempotent: boolean;
+  private readonly random: () => number;
+
+  constructor(options: ExponentialBackoffOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 150;
+    this.maxDelayMs = options.maxDelayMs ?? 5_000;
+    this.maxElapsedMs = options.maxElapsedMs ?? 30_000;
+    this.retryableStatuses = new Set(options.retryableStatuses ?? [500, 502, 503, 504]);
+    this.retryNonIdempotent = options.retryNonIdempotent ?? false;
+    this.random = options.random ?? Math.random;
+  }
+
+  getRetryDelay(context: RetryContext): number | undefined {
+    if (context.attempt > this.maxRetries) return undefined;
+
+    if (context.status === 429) {
+      const retryAfterMs = context.retryAfterMs ?? 0;
+      return context.elapsedMs + retryAfterMs <= this.maxElapsedMs ? 0 : undefined;
+    }
+
+    const retryable = context.status === undefined || this.retryableStatuses.has(context.status);
+    if (!retryable || (context.method === 'POST' && !this.retryNonIdempotent)) {
+      return undefined;
+    }
+
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (context.attempt - 1));
+    const delay = Math.round(ceiling * this.random());
+    return context.elapsedMs + delay <= this.maxElapsedMs ? delay : undefined;
+  }
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { DiscordAPIError, DiscordHTTPError, RateLimitError } from "../DiscordAPIError.js";
+import { DiscordRestClient } from "../DiscordRestClient.js";
+
+function createRest(response: () => Response) {
+	return new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		maxRetries: 0,
+		fetchImplementation: (async () => response()) as typeof fetch,
+	});
+}
+
+test("Discord error bodies become DiscordAPIError with flattened field errors", async () => {
+	const rest = createRest(
+		() =>
+			new Response(
+				JSON.stringify({
+					code: 50035,
+					message: "Invalid Form Body",
+					errors: {
+						embeds: {
+							0: { description: { _errors: [{ code: "BASE_TYPE_MAX_LENGTH", message: "Too long" }] } },
+						},
+						content: { _errors: [{ code: "BASE_TYPE_REQUIRED", message: "Required" }] },
+					},
+				}),
+				{ status: 400 },
+			),
+	);
+
+	const error = await rest
+		.request("/webhooks/app/secret-token/messages/@original", {
+			method: "PATCH",
+			body: JSON.stringify({ content: "hi", nested: { access_token: "abc" } }),
+			authenticated: false,
+		})
+		.catch((caught: unknown) => caught);
+
+	assert.ok(error instanceof DiscordAPIError);
+	assert.ok(error instanceof DiscordHTTPError);
+	assert.equal(error.code, 50035);
+	assert.equal(error.status, 400);
+	assert.equal(error.method, "PATCH");
+	assert.equal(error.route, "/webhooks/:id/:token/messages/@original");
+	assert.doesNotMatch(error.message, /secret-token/);
+	assert.deepEqual(error.fieldErrors, [
+		{ path: "embeds[0].description", code: "BASE_TYPE_MAX_LENGTH", message: "Too long" },
+		{ path: "content", code: "BASE_TYPE_REQUIRED", message: "Required" },
+	]);
+	assert.deepEqual(error.requestBody, { content: "hi", nested: { access_token: "[REDACTED]" } });
+});
+
+test("exhausted 429s throw RateLimitError and other bodies DiscordHTTPError", async () => {
+	const limited = createRest(
+		() =>
+			new Response(JSON.stringify({ message: "You are being rate limited.", retry_after: 1.5, global: false }), {
+				status: 429,
+				headers: { "Retry-After": "1.5", "X-RateLimit-Scope": "shared" },
+			}),
+	);
+	const rateLimit = await limited.request("/channels/1/messages").catch((caught: unknown) => caught);
+	assert.ok(rateLimit instanceof RateLimitError);
+	assert.equal(rateLimit.retryAfterMs, 1500);
+	assert.equal(rateLimit.scope, "shared");
+	assert.equal(rateLimit.global, false);
+
+	const gateway = createRest(() => new Response("<html>Bad Gateway</html>", { status: 502 }));
+	const http = await gateway.request("/channels/1/messages").catch((caught: unknown) => caught);
+	assert.ok(http instanceof DiscordHTTPError);
+	assert.ok(!(http instanceof DiscordAPIError));
+	assert.equal(http.status, 502);
+	assert.match(http.message, /^\[DiscordRestClient\] GET \/channels\/1\/messages failed: 502 <html>/);
+});
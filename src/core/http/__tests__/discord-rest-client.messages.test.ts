@@ -176,3 +176,81 @@ test("sendMessage rejects ephemeral flags for regular messages", async () => {
 		/regular channel or webhook messages/,
 	);
 });
+
+test("sent messages can be edited, pinned, replied to and cleaned up", async () => {
+	const calls: Array<{ method: string; input: string; init: RequestInit }> = [];
+	const fetchImpl: typeof fetch = (async (input, init) => {
+		const method = init?.method ?? "GET";
+		calls.push({ method, input: String(input), init: init ?? {} });
+		if (method === "DELETE" || method === "PUT") {
+			return new Response(null, { status: 204 });
+		}
+		return new Response(
+			JSON.stringify({ id: method === "POST" && calls.length > 1 ? "msg_reply" : "msg_1", channel_id: "chan_1" }),
+			{ status: 200 },
+		);
+	}) as typeof fetch;
+
+	const rest = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		fetchImplementation: fetchImpl,
+	});
+
+	const message = await rest.sendMessage({ channelId: "chan_1", content: "Hello" });
+	const edited = await message.edit({
+		content: "Edited",
+		files: [{ name: "log.txt", data: new TextEncoder().encode("log") }],
+	});
+	await edited.pin("Important");
+	await edited.unpin();
+	await edited.fetch();
+	const reply = await edited.reply({ content: "Reply" });
+	await edited.removeReaction("👍", "user_1");
+	await edited.clearReactions();
+	await edited.delete("Cleanup");
+
+	assert.equal(reply.id, "msg_reply");
+	assert.deepEqual(
+		calls.slice(1).map(({ method, input }) => `${method} ${new URL(input).pathname.replace("/api/v10", "")}`),
+		[
+			"PATCH /channels/chan_1/messages/msg_1",
+			"PUT /channels/chan_1/messages/pins/msg_1",
+			"DELETE /channels/chan_1/messages/pins/msg_1",
+			"GET /channels/chan_1/messages/msg_1",
+			"POST /channels/chan_1/messages",
+			"DELETE /channels/chan_1/messages/msg_1/reactions/%F0%9F%91%8D/user_1",
+			"DELETE /channels/chan_1/messages/msg_1/reactions",
+			"DELETE /channels/chan_1/messages/msg_1",
+		],
+	);
+	assert.ok(calls[1].init.body instanceof FormData);
+	assert.equal((calls[2].init.headers as Record<string, string>)["X-Audit-Log-Reason"], "Important");
+	assert.match(String(calls[5].init.body), /"message_reference":\{"message_id":"msg_1"\}/);
+	assert.equal((calls[8].init.headers as Record<string, string>)["X-Audit-Log-Reason"], "Cleanup");
+});
+
+test("audit-log reasons are URL-encoded so non-ASCII text is a valid header", async () => {
+	const reasons: Array<string | null> = [];
+	const fetchImpl: typeof fetch = (async (_input, init) => {
+		// Headers rejects values that are not ByteStrings, as fetch does.
+		reasons.push(new Headers(init?.headers).get("X-Audit-Log-Reason"));
+		return init?.method === "POST"
+			? new Response(JSON.stringify({ id: "thread_1", type: 11 }), { status: 200 })
+			: new Response(null, { status: 204 });
+	}) as typeof fetch;
+
+	const rest = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		fetchImplementation: fetchImpl,
+	});
+
+	await rest.deleteMessage("chan_1", "msg_1", "spam 👍");
+	await rest.pinMessage("chan_1", "msg_1", "spam 👍");
+	await rest.unpinMessage("chan_1", "msg_1", "spam 👍");
+	await rest.startThread({ channelId: "chan_1", messageId: "msg_1", name: "Thread", reason: "spam 👍" });
+	await rest.deleteMessage("chan_1", "msg_1");
+
+	assert.deepEqual(reasons, [...Array(4).fill(encodeURIComponent("spam 👍")), null]);
+});
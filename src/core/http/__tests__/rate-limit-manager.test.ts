@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { DiscordRestClient } from "../DiscordRestClient.js";
+import { getRateLimitRoute, RateLimitManager } from "../RateLimitManager.js";
+
+test("routes are templated and keyed by their major parameter", () => {
+	assert.deepEqual(
+		getRateLimitRoute("delete", "/channels/111111111111111111/messages/222222222222222222/reactions/%F0%9F%91%8D/@me"),
+		{
+			route: "DELETE /channels/:id/messages/:id/reactions/:reaction/@me",
+			majorParameter: "111111111111111111",
+		},
+	);
+	assert.deepEqual(getRateLimitRoute("PATCH", "/webhooks/app/tok/messages/@original"), {
+		route: "PATCH /webhooks/:id/:token/messages/@original",
+		majorParameter: "app/tok",
+	});
+	assert.equal(getRateLimitRoute("GET", "/users/@me").majorParameter, "global");
+});
+
+test("an exhausted bucket delays the next request until it resets", async () => {
+	const manager = new RateLimitManager();
+	const sentAt: number[] = [];
+	const send = async () => {
+		sentAt.push(Date.now());
+		return new Response(null, {
+			status: 204,
+			headers: {
+				"X-RateLimit-Bucket": "abc",
+				"X-RateLimit-Remaining": "0",
+				"X-RateLimit-Reset-After": "0.05",
+			},
+		});
+	};
+
+	await Promise.all([
+		manager.send("POST", "/channels/1/messages", send),
+		manager.send("POST", "/channels/1/messages", send),
+	]);
+	// A different channel is a different bucket and is not held back.
+	const otherStart = Date.now();
+	await manager.send("POST", "/channels/2/messages", send);
+
+	assert.equal(sentAt.length, 3);
+	assert.ok(sentAt[1] - sentAt[0] >= 45, `waited ${sentAt[1] - sentAt[0]}ms`);
+	assert.ok(sentAt[2] - otherStart < 45);
+});
+
+test("a global 429 pauses authenticated requests before retrying", async () => {
+	const calls: Array<{ path: string; at: number }> = [];
+	const fetchImpl: typeof fetch = (async (input) => {
+		const path = new URL(String(input)).pathname;
+		calls.push({ path, at: Date.now() });
+		if (calls.length === 1) {
+			return new Response(JSON.stringify({ message: "You are being rate limited.", global: true }), {
+				status: 429,
+				headers: { "Retry-After": "0.05", "X-RateLimit-Global": "true" },
+			});
+		}
+		return new Response(JSON.stringify({ id: "msg" }), { status: 200 });
+	}) as typeof fetch;
+	const rest = new DiscordRestClient({ token: "token", applicationId: "app", fetchImplementation: fetchImpl });
+
+	const first = rest.request("/channels/1/messages", { method: "POST", body: "{}" });
+	await new Promise((resolve) => setTimeout(resolve, 5));
+	const second = rest.request("/guilds/2/roles", { method: "GET" });
+	await Promise.all([first, second]);
+
+	assert.equal(calls.length, 3);
+	const guildCall = calls.find((call) => call.path === "/api/v10/guilds/2/roles");
+	assert.ok(guildCall);
+	assert.ok(guildCall.at - calls[0].at >= 45, `waited ${guildCall.at - calls[0].at}ms`);
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { DiscordRestClient } from "../DiscordRestClient.js";
+import { ExponentialBackoffRetryPolicy } from "../RetryPolicy.js";
+
+test("backoff doubles with jitter, skips POSTs and stops at the elapsed budget", () => {
+	const policy = new ExponentialBackoffRetryPolicy({ baseDelayMs: 100, maxElapsedMs: 1_000, random: () => 0.5 });
+	const context = { method: "GET", path: "/x", elapsedMs: 0, error: new Error("x") };
+
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 1, status: 503 }), 50);
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 3 }), 200);
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 1, status: 400 }), undefined);
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 4 }), undefined);
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 1, elapsedMs: 990 }), undefined);
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 1, method: "POST", status: 503 }), undefined);
+	assert.equal(policy.getRetryDelay({ ...context, attempt: 1, method: "POST", status: 429, retryAfterMs: 500 }), 0);
+	assert.equal(
+		new ExponentialBackoffRetryPolicy({ retryNonIdempotent: true, random: () => 0 }).getRetryDelay({
+			...context,
+			attempt: 1,
+			method: "POST",
+		}),
+		0,
+	);
+});
+
+test("timeoutMs aborts hung attempts and the policy retries them", async () => {
+	let attempts = 0;
+	const rest = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		maxRetries: 1,
+		timeoutMs: 20,
+		fetchImplementation: ((_input: string, init?: RequestInit) => {
+			attempts += 1;
+			return new Promise((_resolve, reject) => {
+				init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+			});
+		}) as typeof fetch,
+	});
+
+	await assert.rejects(rest.request("/channels/1"), /\[DiscordRestClient\] GET \/channels\/1 timed out after 20ms/);
+	assert.equal(attempts, 2);
+
+	attempts = 0;
+	await assert.rejects(rest.request("/channels/1/messages", { method: "POST", body: "{}" }), /timed out/);
+	assert.equal(attempts, 1);
+});
+
+test("aborting a signal cancels requests waiting in a rate-limit queue", async () => {
+	let calls = 0;
+	const rest = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		fetchImplementation: (async () => {
+			calls += 1;
+			return new Response(null, {
+				status: 204,
+				headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset-After": "10" },
+			});
+		}) as typeof fetch,
+	});
+
+	await rest.request("/channels/1/messages/222222222222222222", { method: "DELETE" });
+	const controller = new AbortController();
+	const queued = rest.request("/channels/1/messages/333333333333333333", { method: "DELETE", signal: controller.signal });
+	await new Promise((resolve) => setTimeout(resolve, 10));
+	controller.abort(new Error("cancelled"));
+
+	await assert.rejects(queued, /cancelled/);
+	assert.equal(calls, 1);
+});
+
+test("timeoutMs also bounds the wait in an exhausted rate-limit bucket", async () => {
+	let calls = 0;
+	const rest = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		maxRetries: 0,
+		timeoutMs: 50,
+		fetchImplementation: (async () => {
+			calls += 1;
+			return new Response(null, {
+				status: 204,
+				headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset-After": "1" },
+			});
+		}) as typeof fetch,
+	});
+
+	await rest.request("/channels/1/messages/222222222222222222", { method: "DELETE" });
+	const startedAt = Date.now();
+	await assert.rejects(
+		rest.request("/channels/1/messages/333333333333333333", { method: "DELETE" }),
+		/timed out after 50ms/,
+	);
+
+	assert.ok(Date.now() - startedAt < 500, `held for ${Date.now() - startedAt}ms`);
+	assert.equal(calls, 1);
+});
+
+test("timeout and transport errors keep interaction tokens out of their messages", async () => {
+	const hung = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		maxRetries: 0,
+		timeoutMs: 10,
+		fetchImplementation: ((_input: string, init?: RequestInit) =>
+			new Promise((_resolve, reject) => {
+				init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+			})) as typeof fetch,
+	});
+	const broken = new DiscordRestClient({
+		token: "token",
+		applicationId: "app",
+		maxRetries: 0,
+		fetchImplementation: (async () => {
+			throw new TypeError("fetch failed");
+		}) as typeof fetch,
+	});
+
+	for (const rest of [hung, broken]) {
+		const error = await rest
+			.request("/webhooks/app/secret-token/messages/@original", { method: "GET", authenticated: false })
+			.catch((caught: unknown) => caught);
+		assert.ok(error instanceof Error);
+		assert.match(error.message, /\/webhooks\/app\/:token\/messages\/@original (timed out|failed)/);
+		assert.doesNotMatch(error.message, /secret-token/);
+	}
+});
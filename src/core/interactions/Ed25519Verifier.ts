@@ -0,0 +1,234 @@
+/**
+ * Dependency-free Ed25519 signature verification for Discord interaction requests.
+ *
+ * Uses `crypto.subtle` with the standard `Ed25519` algorithm, then the legacy
+ * `NODE-ED25519` name still found on older Workers/Vercel Edge builds, and finally
+ * a BigInt implementation of RFC 8032 verification for runtimes that expose
+ * SubtleCrypto without Ed25519 support.
+ */
+
+type Ed25519Algorithm = { name: string; namedCurve?: string };
+
+const ALGORITHMS: Ed25519Algorithm[] = [{ name: 'Ed25519' }, { name: 'NODE-ED25519', namedCurve: 'NODE-ED25519' }];
+
+// RFC 8032 test vector 1 public key; only used to probe algorithm support.
+const PROBE_KEY = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+
+const encoder = new TextEncoder();
+const keyCache = new Map<string, Promise<CryptoKey | null>>();
+let algorithmPromise: Promise<Ed25519Algorithm | null> | undefined;
+
+/**
+ * Verifies `signature` over `timestamp + body`. Byte bodies are verified exactly as
+ * received; they are never decoded and re-encoded.
+ */
+export async function verifyInteractionSignature(
+  body: string | Uint8Array,
+  signature: string,
+  timestamp: string,
+  publicKey: string,
+): Promise<boolean> {
+  const bodyBytes = typeof body === 'string' ? encoder.encode(body) : body;
+  const timestampBytes = encoder.encode(timestamp);
+  const message = new Uint8Array(timestampBytes.length + bodyBytes.length);
+  message.set(timestampBytes);
+  message.set(bodyBytes, timestampBytes.length);
+  return verifyEd25519(publicKey, signature, message);
+}
+
+export async function verifyEd25519(publicKeyHex: string, signatureHex: string, message: Uint8Array): Promise<boolean> {
+  const publicKey = hexToBytes(publicKeyHex);
+  const signature = hexToBytes(signatureHex);
+  if (publicKey?.length !== 32 || signature?.length !== 64) {
+    return false;
+  }
+
+  const subtle = getSubtle();
+  const algorithm = await (algorithmPromise ??= detectAlgorithm(subtle));
+  if (!algorithm) {
+    return verifyEd25519Fallback(publicKey, signature, message);
+  }
+
+  const key = await importPublicKey(subtle, algorithm, publicKeyHex.toLowerCase(), publicKey);
+  if (!key) {
+    return false;
+  }
+  return subtle.verify(algorithm, key, toBufferSource(signature), toBufferSource(message));
+}
+
+function importPublicKey(
+  subtle: SubtleCrypto,
+  algorithm: Ed25519Algorithm,
+  cacheKey: string,
+  publicKey: Uint8Array,
+): Promise<CryptoKey | null> {
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = subtle.importKey('raw', toBufferSource(publicKey), algorithm, false, ['verify']).catch(() => null);
+    keyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+async function detectAlgorithm(subtle: SubtleCrypto): Promise<Ed25519Algorithm | null> {
+  const probe = toBufferSource(hexToBytes(PROBE_KEY) as Uint8Array);
+  for (const algorithm of ALGORITHMS) {
+    try {
+      await subtle.importKey('raw', probe, algorithm, false, ['verify']);
+      return algorithm;
+    } catch {
+      // Try the next algorithm name.
+    }
+  }
+  return null;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('[InteractionVerifier] crypto.subtle is not available in this runtime');
+  }
+  return subtle;
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let index = 0; index < bytes.length; index += 1) {
+    bytes[index] = Number.parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function toBufferSource(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+// --- RFC 8032 fallback -------------------------------------------------------
+
+type Point = { x: bigint; y: bigint; z: bigint; t: bigint };
+
+const P = 2n ** 255n - 19n;
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+const D = mod(-121665n * invert(121666n));
+const D2 = mod(2n * D);
+const SQRT_M1 = pow(2n, (P - 1n) / 4n);
+const BASE: Point = withT(
+  15112221349535400772501151409588531511454012693041857206046113283949847762202n,
+  46316835694926478169428394003475163141307993866256225615783033603165251855960n,
+);
+const IDENTITY: Point = { x: 0n, y: 1n, z: 1n, t: 0n };
+
+/** Cofactorless RFC 8032 verification: checks `[S]B == R + [k]A`. */
+export async function verifyEd25519Fallback(
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  message: Uint8Array,
+): Promise<boolean> {
+  const a = decodePoint(publicKey);
+  const r = decodePoint(signature.subarray(0, 32));
+  const s = bytesToNumberLE(signature.subarray(32));
+  if (!a || !r || s >= L) {
+    return false;
+  }
+
+  const hashInput = new Uint8Array(64 + message.length);
+  hashInput.set(signature.subarray(0, 32));
+  hashInput.set(publicKey, 32);
+  hashInput.set(message, 64);
+  const digest = new Uint8Array(await getSubtle().digest('SHA-512', toBufferSource(hashInput)));
+  const k = bytesToNumberLE(digest) % L;
+
+  const left = multiply(BASE, s);
+  const right = add(r, multiply(a, k));
+  return mod(left.x * right.z - right.x * left.z) === 0n && mod(left.y * right.z - right.y * left.z) === 0n;
+}
+
+function decodePoint(bytes: Uint8Array): Point | null {
+  const encoded = bytesToNumberLE(bytes);
+  const y = encoded & ((1n << 255n) - 1n);
+  const sign = encoded >> 255n;
+  if (y >= P) {
+    return null;
+  }
+
+  const y2 = mod(y * y);
+  const u = mod(y2 - 1n);
+  const v = mod(D * y2 + 1n);
+  let x = mod(u * pow(v, 3n) * pow(mod(u * pow(v, 7n)), (P - 5n) / 8n));
+  const vx2 = mod(v * x * x);
+  if (vx2 === mod(-u)) {
+    x = mod(x * SQRT_M1);
+  } else if (vx2 !== u) {
+    return null;
+  }
+
+  if (x === 0n && sign === 1n) {
+    return null;
+  }
+  if ((x & 1n) !== sign) {
+    x = P - x;
+  }
+  return withT(x, y);
+}
+
+function add(p1: Point, p2: Point): Point {
+  const a = mod((p1.y - p1.x) * (p2.y - p2.x));
+  const b = mod((p1.y + p1.x) * (p2.y + p2.x));
+  const c = mod(p1.t * D2 * p2.t);
+  const d = mod(p1.z * 2n * p2.z);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return { x: mod(e * f), y: mod(g * h), z: mod(f * g), t: mod(e * h) };
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+  let result = IDENTITY;
+  let addend = point;
+  while (scalar > 0n) {
+    if (scalar & 1n) {
+      result = add(result, addend);
+    }
+    addend = add(addend, addend);
+    scalar >>= 1n;
+  }
+  return result;
+}
+
+function withT(x: bigint, y: bigint): Point {
+  return { x, y, z: 1n, t: mod(x * y) };
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let index = bytes.length - 1; index >= 0; index -= 1) {
+    value = (value << 8n) | BigInt(bytes[index]);
+  }
+  return value;
+}
+
+function mod(value: bigint): bigint {
+  const result = value % P;
+  return result >= 0n ? result : result + P;
+}
+
+function pow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  base = mod(base);
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = mod(result * base);
+    }
+    base = mod(base * base);
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function invert(value: bigint): bigint {
+  return pow(value, P - 2n);
+}
@@ -0,0 +1,227 @@
+import {
+  createFetchInteractionHandler,
+  handleInteractionRequest,
+  type FetchExecutionContext,
+  type InteractionRequestHandlerOptions,
+  type InteractionRequestResult,
+} from './InteractionRequestHandler.js';
+
+/** Handler options, or an object such as `MiniInteraction` that provides them. */
+export type InteractionRequestHandlerSource =
+  | InteractionRequestHandlerOptions
+  | { getRequestHandlerOptions(): InteractionRequestHandlerOptions };
+
+type NodeHeaders = Record<string, string | string[] | undefined>;
+
+export type ExpressRequestLike = {
+  headers: NodeHeaders;
+  body?: unknown;
+  rawBody?: unknown;
+  readableEnded?: boolean;
+  [Symbol.asyncIterator]?: () => AsyncIterator<Uint8Array | string>;
+};
+
+export type ExpressResponseLike = {
+  status(code: number): ExpressResponseLike;
+  json(body: unknown): unknown;
+};
+
+export type ExpressMiddleware = (
+  req: ExpressRequestLike,
+  res: ExpressResponseLike,
+  next: (error?: unknown) => void,
+) => Promise<void>;
+
+export type FastifyRequestLike = {
+  headers: NodeHeaders;
+  body?: unknown;
+};
+
+export type FastifyReplyLike = {
+  code(statusCode: number): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+};
+
+export type FastifyInstanceLike = {
+  removeContentTypeParser?(contentType: string): void;
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'buffer' },
+    parser: (request: unknown, body: Uint8Array, done: (error: Error | null, body?: unknown) => void) => void,
+  ): void;
+  post(path: string, handler: (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>): void;
+};
+
+export type FastifyPluginOptions = {
+  /** Route path inside the plugin prefix. Defaults to `/`. */
+  path?: string;
+};
+
+export type FastifyInteractionPlugin = (fastify: FastifyInstanceLike, options?: FastifyPluginOptions) => Promise<void>;
+
+export type HonoContextLike = {
+  req: {
+    raw: Request;
+    bodyCache?: { arrayBuffer?: Promise<ArrayBuffer>; text?: Promise<string> };
+  };
+  /** Hono throws from this getter on runtimes without an execution context. */
+  readonly executionCtx?: FetchExecutionContext;
+};
+
+export type HonoInteractionHandler = (c: HonoContextLike) => Promise<Response>;
+
+export type NextRouteHandler = (request: Request) => Promise<Response>;
+
+const encoder = new TextEncoder();
+
+/**
+ * Express middleware that reads the exact request bytes before verifying them.
+ * Mount it ahead of `express.json()`, or behind `express.raw({ type: 'application/json' })`.
+ */
+export function toExpressMiddleware(source: InteractionRequestHandlerSource): ExpressMiddleware {
+  const options = resolveOptions(source);
+  return async (req, res, next) => {
+    try {
+      const body = await readNodeRawBody(
+        req,
+        'Express',
+        'Mount toExpressMiddleware() before express.json(), or use express.raw({ type: "application/json" }) on the route.',
+      );
+      const result = await handleNodeRequest(body, req.headers, options);
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Fastify plugin that registers a `POST` interactions route. A buffer content-type
+ * parser is installed inside the plugin's encapsulated scope, so other routes keep
+ * Fastify's default JSON parsing. Register it without `fastify-plugin`.
+ */
+export function toFastifyPlugin(source: InteractionRequestHandlerSource): FastifyInteractionPlugin {
+  const options = resolveOptions(source);
+  return async (fastify, pluginOptions = {}) => {
+    fastify.removeContentTypeParser?.('application/json');
+    fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, done) => done(null, body));
+
+    fastify.post(pluginOptions.path ?? '/', async (request, reply) => {
+      if (request.body !== undefined && !(request.body instanceof Uint8Array)) {
+        throw rawBodyConsumedError(
+          'Fastify',
+          'Register toFastifyPlugin() without fastify-plugin so its buffer content-type parser stays in scope.',
+        );
+      }
+
+      const result = await handleNodeRequest(request.body ?? new Uint8Array(), request.headers, options);
+      return reply.code(result.status).send(result.body);
+    });
+  };
+}
+
+/**
+ * Hono handler. Reuses Hono's body cache when earlier middleware already read the
+ * body as text or bytes, and forwards `c.executionCtx.waitUntil` on Workers.
+ */
+export function toHonoHandler(source: InteractionRequestHandlerSource): HonoInteractionHandler {
+  const handler = createFetchInteractionHandler(resolveOptions(source));
+  return async (c) => {
+    const { raw, bodyCache } = c.req;
+    let request = raw;
+    const cached = bodyCache?.arrayBuffer ?? bodyCache?.text;
+    if (cached) {
+      const body = await cached;
+      request = new Request(raw.url, {
+        method: raw.method,
+        headers: raw.headers,
+        body: typeof body === 'string' ? encoder.encode(body) : body,
+      });
+    } else if (raw.bodyUsed) {
+      throw rawBodyConsumedError(
+        'Hono',
+        'Read the body with c.req.text() or c.req.arrayBuffer() in earlier middleware, not c.req.json().',
+      );
+    }
+
+    let executionCtx: FetchExecutionContext | undefined;
+    try {
+      executionCtx = c.executionCtx;
+    } catch {
+      executionCtx = undefined;
+    }
+
+    return handler(request, executionCtx);
+  };
+}
+
+/**
+ * Next.js App Router `POST` handler (`export const POST = toNextRouteHandler(mini)`).
+ * Background work is handed to the source's `scheduleBackgroundTask`.
+ */
+export function toNextRouteHandler(source: InteractionRequestHandlerSource): NextRouteHandler {
+  const handler = createFetchInteractionHandler(resolveOptions(source));
+  return (request) => handler(request);
+}
+
+function resolveOptions(source: InteractionRequestHandlerSource): InteractionRequestHandlerOptions {
+  return 'getRequestHandlerOptions' in source ? source.getRequestHandlerOptions() : source;
+}
+
+async function handleNodeRequest(
+  body: Uint8Array,
+  headers: NodeHeaders,
+  options: InteractionRequestHandlerOptions,
+): Promise<InteractionRequestResult> {
+  const result = await handleInteractionRequest(
+    {
+      body,
+      signature: getNodeHeader(headers, 'x-signature-ed25519'),
+      timestamp: getNodeHeader(headers, 'x-signature-timestamp'),
+    },
+    options,
+  );
+  if (result.background) {
+    options.scheduleBackgroundTask?.(result.background);
+  }
+  return result;
+}
+
+async function readNodeRawBody(req: ExpressRequestLike, framework: string, hint: string): Promise<Uint8Array> {
+  for (const candidate of [req.rawBody, req.body]) {
+    if (candidate instanceof Uint8Array) return candidate;
+    if (typeof candidate === 'string') return encoder.encode(candidate);
+  }
+
+  const iterate = req[Symbol.asyncIterator];
+  if (typeof iterate !== 'function' || req.readableEnded) {
+    throw rawBodyConsumedError(framework, hint);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for await (const chunk of { [Symbol.asyncIterator]: () => iterate.call(req) }) {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.byteLength;
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+function getNodeHeader(headers: NodeHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function rawBodyConsumedError(framework: string, hint: string): Error {
+  return new Error(
+    `[MiniInteraction] ${framework} request body was already consumed or parsed; Discord signatures must be verified against the raw bytes. ${hint}`,
+  );
+}
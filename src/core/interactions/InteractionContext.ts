@@ -1,73 +1,425 @@
-import type {
-  APIInteractionResponse,
-  APIInteractionResponseCallbackData,
-  APIModalInteractionResponseCallbackData,
+import {
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+  type APIInteractionResponse,
+  type APIInteractionResponseCallbackData,
+  type APIModalInteractionResponseCallbackData,
 } from 'discord-api-types/v10';
 import type { ParsedInteraction } from '../../types/discord.js';
+import { assertAutocompleteChoices, type AutocompleteChoice } from '../../utils/AutocompleteInteraction.js';
+import type { InteractionWebhookMessages } from '../../utils/interactionWebhookMessages.js';
 import { DiscordRestClient } from '../http/DiscordRestClient.js';
 import type { DiscordSentMessage } from '../messages/DiscordSentMessage.js';
 import type {
   BaseDiscordMessageOptions,
   DiscordSendMessageOptions,
 } from '../messages/message-payloads.js';
+import type { InitialResponseCommitter } from './InteractionRequestHandler.js';
+import {
+  canInteractionRespond,
+  getInteractionDeadline,
+  InteractionExpiredError,
+  type InteractionResponseState,
+} from './InteractionLifetime.js';
+import { InteractionSession, type InteractionSessionOptions } from './InteractionSession.js';
 
 export type InteractionContextOptions = {
   interaction: ParsedInteraction;
   rest: DiscordRestClient;
-  autoAck?: { enabled: boolean; delayMs?: number };
+  /**
+   * Defers the interaction when no initial response was produced within `delayMs`
+   * (default 2000). Components get `deferUpdate`, everything else `deferReply`.
+   */
+  autoAck?: { enabled: boolean; delayMs?: number; ephemeral?: boolean };
+  /**
+   * Sends the auto-ack through the pending HTTP response. Without it the
+   * deferral is posted to the interaction callback endpoint.
+   */
+  commitInitialResponse?: InitialResponseCommitter;
   onDiagnostic?: (message: string) => void;
+  /** Enables {@link InteractionContext.session}. */
+  sessions?: InteractionSessionOptions;
+};
+
+const MESSAGE_RESPONSES = [
+  InteractionResponseType.ChannelMessageWithSource,
+  InteractionResponseType.DeferredChannelMessageWithSource,
+  InteractionResponseType.PremiumRequired,
+];
+
+/** Initial response types Discord accepts for each interaction type. */
+const ALLOWED_RESPONSES: Partial<Record<InteractionType, readonly InteractionResponseType[]>> = {
+  [InteractionType.ApplicationCommand]: [
+    ...MESSAGE_RESPONSES,
+    InteractionResponseType.Modal,
+    InteractionResponseType.LaunchActivity,
+  ],
+  [InteractionType.MessageComponent]: [
+    ...MESSAGE_RESPONSES,
+    InteractionResponseType.DeferredMessageUpdate,
+    InteractionResponseType.UpdateMessage,
+    InteractionResponseType.Modal,
+    InteractionResponseType.LaunchActivity,
+  ],
+  [InteractionType.ApplicationCommandAutocomplete]: [InteractionResponseType.ApplicationCommandAutocompleteResult],
+  [InteractionType.ModalSubmit]: [
+    ...MESSAGE_RESPONSES,
+    InteractionResponseType.DeferredMessageUpdate,
+    InteractionResponseType.UpdateMessage,
+  ],
+};
+
+/**
+ * Callbacks expected by the helper-augmented interactions (`createCommandInteraction`,
+ * `createMessageComponentInteraction`, ...). {@link InteractionContext.helpers} binds
+ * them to the context so both APIs share one response lifecycle.
+ */
+export type InteractionLifecycleHelpers = {
+  canRespond: (interactionId: string) => boolean;
+  trackResponse: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
+  onAck: (response: APIInteractionResponse) => void;
+  sendFollowUp: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+  messages: InteractionWebhookMessages;
 };
 
 export class InteractionContext {
+  readonly helpers: InteractionLifecycleHelpers;
   private responded = false;
-  private autoAckTimer?: NodeJS.Timeout;
+  private autoAckTimer?: ReturnType<typeof setTimeout>;
+  private autoDeferred?: APIInteractionResponse;
+  private initialResponse?: APIInteractionResponse;
+  /** Whether the initial response left through the committer or the callback endpoint. */
+  private committed = false;
+  private webhookSent = false;
+  /** The auto-ack's callback request; webhook calls must not reach Discord before it. */
+  private deferral: Promise<unknown> = Promise.resolve();
+  private readonly pending: Promise<unknown>[] = [];
+  private sessionInstance?: InteractionSession;
 
   constructor(private readonly options: InteractionContextOptions) {
-    if (options.autoAck?.enabled) {
+    const deferrable = ALLOWED_RESPONSES[options.interaction.type]?.includes(
+      InteractionResponseType.DeferredChannelMessageWithSource,
+    );
+    if (options.autoAck?.enabled && deferrable) {
       const delay = options.autoAck.delayMs ?? 2000;
-      this.autoAckTimer = setTimeout(() => {
-        if (!this.responded) {
-          options.onDiagnostic?.(`[InteractionContext] auto-ack triggered for ${this.options.interaction.id}`);
-        }
-      }, delay);
+      this.autoAckTimer = setTimeout(() => this.autoDefer(), delay);
     }
+
+    this.helpers = {
+      canRespond: (interactionId) => canInteractionRespond(interactionId, this.responseState),
+      trackResponse: () => {
+        this.responded = true;
+        this.clearAutoAck();
+      },
+      onAck: (response) => {
+        if (this.autoDeferred) {
+          this.respondAfterAutoDefer(this.autoDeferred, response);
+        } else {
+          this.acknowledge(response);
+        }
+      },
+      sendFollowUp: async (token, response, messageId) => {
+        // Before anything was sent, collapse defer + edit into one initial response.
+        if (!this.committed) {
+          this.acknowledge(response);
+          return;
+        }
+
+        const data = 'data' in response ? (response.data ?? {}) : {};
+        this.webhookSent = true;
+        await this.deferral;
+        if (messageId === '@original') {
+          await this.options.rest.editOriginal(token, data);
+        } else {
+          await this.options.rest.createFollowup(token, data);
+        }
+      },
+      messages: {
+        getOriginalMessage: () => this.getOriginalMessage(),
+        deleteOriginalMessage: () => this.deleteOriginalMessage(),
+        getFollowupMessage: (messageId) => this.getFollowupMessage(messageId),
+        editFollowupMessage: (messageId, body) => this.editFollowupMessage(messageId, body),
+        deleteFollowupMessage: (messageId) => this.deleteFollowupMessage(messageId),
+      },
+    };
   }
 
   reply(data: APIInteractionResponseCallbackData): APIInteractionResponse {
-    this.responded = true;
-    this.clearAutoAck();
-    return { type: 4, data };
+    return this.respond({ type: InteractionResponseType.ChannelMessageWithSource, data });
   }
 
   deferReply(ephemeral = false): APIInteractionResponse {
-    this.responded = true;
-    this.clearAutoAck();
-    return { type: 5, data: ephemeral ? { flags: 64 } : undefined };
+    return this.respond({
+      type: InteractionResponseType.DeferredChannelMessageWithSource,
+      data: ephemeral ? { flags: 64 } : undefined,
+    });
+  }
+
+  /** Edits the message a component is attached to. Components and component-opened modals only. */
+  update(data: APIInteractionResponseCallbackData): APIInteractionResponse {
+    return this.respond({ type: InteractionResponseType.UpdateMessage, data });
+  }
+
+  /** Acknowledges a component interaction; edit the message later with `editReply`. */
+  deferUpdate(): APIInteractionResponse {
+    return this.respond({ type: InteractionResponseType.DeferredMessageUpdate });
+  }
+
+  autocomplete(choices: AutocompleteChoice[]): APIInteractionResponse {
+    assertAutocompleteChoices(choices);
+    return this.respond({ type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices } });
   }
 
   showModal(data: APIModalInteractionResponseCallbackData): APIInteractionResponse {
-    this.responded = true;
-    this.clearAutoAck();
-    return { type: 9, data };
+    return this.respond({ type: InteractionResponseType.Modal, data });
+  }
+
+  /** @deprecated Discord recommends premium buttons instead of this response type. */
+  premiumRequired(): APIInteractionResponse {
+    return this.respond({ type: InteractionResponseType.PremiumRequired });
+  }
+
+  launchActivity(): APIInteractionResponse {
+    return this.respond({ type: InteractionResponseType.LaunchActivity });
   }
 
+  /** @throws InteractionExpiredError once the interaction token can no longer be used. */
   editReply(body: BaseDiscordMessageOptions): Promise<DiscordSentMessage> {
-    return this.options.rest.editOriginalMessage(this.options.interaction.token, body);
+    this.assertTokenUsable('editReply');
+    this.webhookSent = true;
+    return this.afterDeferral(() => this.options.rest.editOriginalMessage(this.options.interaction.token, body));
   }
 
+  /** @throws InteractionExpiredError once the interaction token can no longer be used. */
   followUp(body: BaseDiscordMessageOptions): Promise<DiscordSentMessage> {
-    return this.options.rest.createFollowupMessage(this.options.interaction.token, body);
+    this.assertTokenUsable('followUp');
+    this.webhookSent = true;
+    return this.afterDeferral(() => this.options.rest.createFollowupMessage(this.options.interaction.token, body));
+  }
+
+  /**
+   * The initial response message; its `edit`/`delete` go through the interaction webhook.
+   * @throws InteractionExpiredError once the interaction token can no longer be used.
+   */
+  getOriginalMessage(): Promise<DiscordSentMessage> {
+    this.assertTokenUsable('getOriginalMessage');
+    return this.afterDeferral(() => this.options.rest.getOriginalMessage(this.options.interaction.token));
+  }
+
+  /** @throws InteractionExpiredError once the interaction token can no longer be used. */
+  deleteOriginalMessage(): Promise<void> {
+    this.assertTokenUsable('deleteOriginalMessage');
+    return this.afterDeferral(() => this.options.rest.deleteOriginalMessage(this.options.interaction.token));
+  }
+
+  /** @throws InteractionExpiredError once the interaction token can no longer be used. */
+  getFollowupMessage(messageId: string): Promise<DiscordSentMessage> {
+    this.assertTokenUsable('getFollowupMessage');
+    return this.afterDeferral(() => this.options.rest.getFollowupMessage(this.options.interaction.token, messageId));
+  }
+
+  /** @throws InteractionExpiredError once the interaction token can no longer be used. */
+  editFollowupMessage(messageId: string, body: BaseDiscordMessageOptions): Promise<DiscordSentMessage> {
+    this.assertTokenUsable('editFollowupMessage');
+    return this.afterDeferral(() => this.options.rest.editFollowupMessage(this.options.interaction.token, messageId, body));
+  }
+
+  /** @throws InteractionExpiredError once the interaction token can no longer be used. */
+  deleteFollowupMessage(messageId: string): Promise<void> {
+    this.assertTokenUsable('deleteFollowupMessage');
+    return this.afterDeferral(() => this.options.rest.deleteFollowupMessage(this.options.interaction.token, messageId));
   }
 
   send(body: DiscordSendMessageOptions): Promise<DiscordSentMessage> {
     return this.options.rest.sendMessage(body);
   }
 
+  /**
+   * Server-side state shared across the interactions of a flow.
+   * @throws Error when the context was created without `sessions`.
+   */
+  get session(): InteractionSession {
+    const { sessions, interaction } = this.options;
+    if (!sessions) {
+      throw new Error('[InteractionContext] sessions are not configured; pass a `sessions` store');
+    }
+    this.sessionInstance ??= new InteractionSession(interaction, sessions);
+    return this.sessionInstance;
+  }
+
+  get sessionsEnabled(): boolean {
+    return this.options.sessions !== undefined;
+  }
+
   get hasResponded(): boolean {
     return this.responded;
   }
 
+  /**
+   * When the interaction stops accepting responses: 3 seconds after creation until
+   * acknowledged, then 15 minutes. `undefined` when the ID is not a snowflake.
+   */
+  get expiresAt(): number | undefined {
+    return getInteractionDeadline(this.options.interaction.id, this.responseState);
+  }
+
+  /** Whether the auto-ack timer already deferred this interaction. */
+  get wasAutoDeferred(): boolean {
+    return this.autoDeferred !== undefined;
+  }
+
+  /** Resolves once the auto-ack and any replies it converted into edits have been sent. */
+  async settled(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Finishes the lifecycle once the handler returned. Returns the response for the
+   * HTTP reply, or `undefined` when the initial response was already sent; a
+   * non-deferred result returned after a deferral is applied as an edit instead.
+   */
+  async resolveResponse(result: APIInteractionResponse | void): Promise<APIInteractionResponse | void> {
+    this.clearAutoAck();
+    await this.settled();
+    await this.sessionInstance?.persist();
+    if (!this.committed) {
+      return result ?? this.initialResponse;
+    }
+
+    if (result && !this.webhookSent && isDeferred(this.initialResponse) && !isDeferred(result)) {
+      this.webhookSent = true;
+      await this.options.rest.editOriginal(this.options.interaction.token, 'data' in result ? (result.data ?? {}) : {});
+    }
+    return undefined;
+  }
+
+  private autoDefer(): void {
+    if (this.responded) return;
+
+    const { interaction, autoAck, commitInitialResponse, rest } = this.options;
+    const response: APIInteractionResponse =
+      interaction.type === InteractionType.MessageComponent
+        ? { type: InteractionResponseType.DeferredMessageUpdate }
+        : {
+            type: InteractionResponseType.DeferredChannelMessageWithSource,
+            data: autoAck?.ephemeral ? { flags: MessageFlags.Ephemeral } : undefined,
+          };
+
+    this.responded = true;
+    this.options.onDiagnostic?.(`[InteractionContext] auto-ack triggered for ${interaction.id}`);
+    if (commitInitialResponse) {
+      // `false` means another initial response won the race; nothing was deferred.
+      if (!commitInitialResponse(response)) return;
+    } else {
+      this.deferral = rest.createInteractionResponse(interaction.id, interaction.token, response);
+      this.track(this.deferral);
+    }
+    this.autoDeferred = response;
+    this.initialResponse = response;
+    this.committed = true;
+  }
+
+  /**
+   * Replays a response requested after the auto-ack as a webhook call: messages
+   * become an edit of the original response (or a follow-up when a component was
+   * deferred with `deferUpdate`), updates become edits, and deferrals are no-ops.
+   */
+  private respondAfterAutoDefer(deferred: APIInteractionResponse, response: APIInteractionResponse): APIInteractionResponse {
+    const { id } = this.options.interaction;
+    switch (response.type) {
+      case InteractionResponseType.ChannelMessageWithSource:
+        this.track(
+          deferred.type === InteractionResponseType.DeferredMessageUpdate
+            ? this.followUp(toMessageOptions(response.data))
+            : this.editReply(toMessageOptions(response.data)),
+        );
+        break;
+      case InteractionResponseType.UpdateMessage:
+        this.track(this.editReply(toMessageOptions(response.data)));
+        break;
+      case InteractionResponseType.DeferredChannelMessageWithSource:
+      case InteractionResponseType.DeferredMessageUpdate:
+        break;
+      default:
+        throw new Error(
+          `[InteractionContext] ${InteractionResponseType[response.type]} cannot be sent after interaction ${id} was auto-deferred`,
+        );
+    }
+    return deferred;
+  }
+
+  private get responseState(): InteractionResponseState {
+    if (this.autoDeferred) return 'deferred';
+    return this.responded ? 'responded' : 'pending';
+  }
+
+  private assertTokenUsable(operation: string): void {
+    const { id } = this.options.interaction;
+    if (!canInteractionRespond(id, this.responseState)) {
+      throw new InteractionExpiredError(id, operation);
+    }
+  }
+
+  /** Sends a webhook call once the auto-ack's deferral was accepted; it is never sent if the deferral failed. */
+  private async afterDeferral<T>(send: () => Promise<T>): Promise<T> {
+    await this.deferral;
+    return send();
+  }
+
+  private track(promise: Promise<unknown>): void {
+    // Failures surface through `settled()`; avoid unhandled rejections meanwhile.
+    promise.catch(() => undefined);
+    this.pending.push(promise);
+  }
+
+  private respond(response: APIInteractionResponse): APIInteractionResponse {
+    const { id, type } = this.options.interaction;
+    if (!ALLOWED_RESPONSES[type]?.includes(response.type)) {
+      throw new Error(
+        `[InteractionContext] ${InteractionResponseType[response.type]} is not a valid response to ${InteractionType[type]} interactions`,
+      );
+    }
+    if (this.autoDeferred) {
+      return this.respondAfterAutoDefer(this.autoDeferred, response);
+    }
+    if (this.responded) {
+      throw new Error(`[InteractionContext] interaction ${id} already has an initial response`);
+    }
+    return this.acknowledge(response);
+  }
+
+  /** Records the initial response and sends it right away when a committer is available. */
+  private acknowledge(response: APIInteractionResponse): APIInteractionResponse {
+    this.responded = true;
+    this.clearAutoAck();
+    this.initialResponse = response;
+    if (!this.committed && this.options.commitInitialResponse?.(response)) {
+      this.committed = true;
+    }
+    return response;
+  }
+
   private clearAutoAck(): void {
     if (this.autoAckTimer) clearTimeout(this.autoAckTimer);
   }
 }
+
+function isDeferred(response: APIInteractionResponse | undefined): boolean {
+  return (
+    response?.type === InteractionResponseType.DeferredChannelMessageWithSource ||
+    response?.type === InteractionResponseType.DeferredMessageUpdate
+  );
+}
+
+function toMessageOptions(data: APIInteractionResponseCallbackData = {}): BaseDiscordMessageOptions {
+  // Ephemerality is fixed by the deferral and cannot be changed by an edit.
+  const flags = data.flags === undefined ? undefined : data.flags & ~MessageFlags.Ephemeral;
+  return {
+    content: data.content ?? undefined,
+    embeds: data.embeds,
+    components: data.components as BaseDiscordMessageOptions['components'],
+    allowedMentions: data.allowed_mentions,
+    flags,
+  };
+}
@@ -0,0 +1,43 @@
+/** Discord drops interactions that are not acknowledged within this window. */
+export const INITIAL_RESPONSE_WINDOW_MS = 3_000;
+/** Interaction tokens stay valid for webhook edits and follow-ups for 15 minutes. */
+export const INTERACTION_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+
+const DISCORD_EPOCH = 1420070400000n;
+
+export type InteractionResponseState = 'pending' | 'deferred' | 'responded';
+
+export class InteractionExpiredError extends Error {
+  constructor(
+    readonly interactionId: string,
+    readonly operation: string,
+  ) {
+    super(`[MiniInteraction] Interaction ${interactionId} cannot ${operation}: its response window has expired`);
+    this.name = 'InteractionExpiredError';
+  }
+}
+
+/** Creation time encoded in an interaction snowflake, or `undefined` for non-snowflake IDs. */
+export function getInteractionCreatedAt(interactionId: string): number | undefined {
+  if (!/^\d+$/.test(interactionId)) return undefined;
+  return Number((BigInt(interactionId) >> 22n) + DISCORD_EPOCH);
+}
+
+/**
+ * Time after which the interaction can no longer be answered: the initial
+ * window while it is still `pending`, the token lifetime once acknowledged.
+ */
+export function getInteractionDeadline(interactionId: string, state: InteractionResponseState): number | undefined {
+  const createdAt = getInteractionCreatedAt(interactionId);
+  if (createdAt === undefined) return undefined;
+  return createdAt + (state === 'pending' ? INITIAL_RESPONSE_WINDOW_MS : INTERACTION_TOKEN_LIFETIME_MS);
+}
+
+export function canInteractionRespond(
+  interactionId: string,
+  state: InteractionResponseState,
+  now: number = Date.now(),
+): boolean {
+  const deadline = getInteractionDeadline(interactionId, state);
+  return deadline === undefined || now <= deadline;
+}
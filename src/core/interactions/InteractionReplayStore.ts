@@ -0,0 +1,79 @@
+import type { MiniDatabase } from '../../database/MiniDatabase.js';
+
+/** Remembers interaction IDs so duplicate deliveries can be rejected. */
+export interface InteractionReplayStore {
+  /**
+   * Records `interactionId` for at least `ttlMs`.
+   * Resolves `false` when the ID was already seen inside that window.
+   */
+  markSeen(interactionId: string, ttlMs: number): boolean | Promise<boolean>;
+}
+
+export type MemoryInteractionReplayStoreOptions = {
+  /** Oldest entries are evicted once this many IDs are tracked. Defaults to 10 000. */
+  maxEntries?: number;
+  now?: () => number;
+};
+
+/** In-process LRU store. Suitable for single-instance servers; use a shared store when scaling out. */
+export class MemoryInteractionReplayStore implements InteractionReplayStore {
+  private readonly entries = new Map<string, number>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: MemoryInteractionReplayStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  markSeen(interactionId: string, ttlMs: number): boolean {
+    const now = this.now();
+    const expiresAt = this.entries.get(interactionId);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.entries.delete(interactionId);
+    this.entries.set(interactionId, now + ttlMs);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    return true;
+  }
+}
+
+export type MiniDatabaseInteractionReplayStoreOptions = {
+  /** Key prefix for stored IDs. Defaults to `interaction-replay:`. */
+  keyPrefix?: string;
+  now?: () => number;
+};
+
+/**
+ * Shares seen IDs across instances through `MiniDatabase`. The read-then-write is
+ * not atomic, so two instances receiving the same delivery at once may both accept it.
+ */
+export class MiniDatabaseInteractionReplayStore implements InteractionReplayStore {
+  private readonly keyPrefix: string;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly database: Pick<MiniDatabase, 'get' | 'set'>,
+    options: MiniDatabaseInteractionReplayStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'interaction-replay:';
+    this.now = options.now ?? Date.now;
+  }
+
+  async markSeen(interactionId: string, ttlMs: number): Promise<boolean> {
+    const key = `${this.keyPrefix}${interactionId}`;
+    const now = this.now();
+    const existing = await this.database.get(key);
+    if (typeof existing?.expiresAt === 'number' && existing.expiresAt > now) {
+      return false;
+    }
+
+    await this.database.set(key, { expiresAt: now + ttlMs });
+    return true;
+  }
+}
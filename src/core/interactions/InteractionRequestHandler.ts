@@ -0,0 +1,156 @@
+import type { APIInteraction, APIInteractionResponse } from 'discord-api-types/v10';
+import { InteractionResponseType, InteractionType } from 'discord-api-types/v10';
+import {
+  InteractionVerificationError,
+  verifyAndParseInteraction,
+  type InteractionVerificationOptions,
+} from './InteractionVerifier.js';
+
+/** Sends the initial response early; returns `false` when one was already sent. */
+export type InitialResponseCommitter = (response: APIInteractionResponse) => boolean;
+
+export type InteractionDispatcher = (
+  interaction: APIInteraction,
+  commitInitialResponse: InitialResponseCommitter,
+) => Promise<APIInteractionResponse | void>;
+
+export type InteractionRequestHandlerOptions = {
+  publicKey?: string;
+  dispatch: InteractionDispatcher;
+  getDefaultResponse: (interaction: APIInteraction) => APIInteractionResponse;
+  /** Used by fetch handlers when the runtime passes no `waitUntil` context. */
+  scheduleBackgroundTask?: (promise: Promise<unknown>) => void;
+  onError?: (error: unknown, phase: 'request' | 'background') => void;
+} & InteractionVerificationOptions;
+
+export type InteractionRequest = {
+  body: string | Uint8Array;
+  signature?: string;
+  timestamp?: string;
+};
+
+export type InteractionRequestResult = {
+  status: number;
+  body: unknown;
+  /** Remaining handler work that must be kept alive after the response is sent. */
+  background?: Promise<unknown>;
+};
+
+/** Minimal execution context shared by Workers, Vercel Edge and Next.js route handlers. */
+export type FetchExecutionContext = {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+export type FetchInteractionHandler = (request: Request, ctx?: FetchExecutionContext) => Promise<Response>;
+
+/**
+ * Verifies a Discord interaction request, answers PINGs and races the dispatcher
+ * against an early initial response. Runtime adapters only translate I/O.
+ */
+export async function handleInteractionRequest(
+  request: InteractionRequest,
+  options: InteractionRequestHandlerOptions,
+): Promise<InteractionRequestResult> {
+  try {
+    if (!options.publicKey) {
+      return { status: 500, body: { error: '[MiniInteraction] Missing DISCORD_PUBLIC_KEY.' } };
+    }
+
+    if (!request.signature || !request.timestamp) {
+      return { status: 401, body: { error: '[MiniInteraction] Missing Discord signature headers.' } };
+    }
+
+    const interaction = await verifyAndParseInteraction({
+      body: request.body,
+      signature: request.signature,
+      timestamp: request.timestamp,
+      publicKey: options.publicKey,
+      maxClockSkewSeconds: options.maxClockSkewSeconds,
+      replayStore: options.replayStore,
+      now: options.now,
+    });
+
+    if (interaction.type === InteractionType.Ping) {
+      return { status: 200, body: { type: InteractionResponseType.Pong } };
+    }
+
+    let committed: APIInteractionResponse | undefined;
+    let resolveInitialCommit: (() => void) | undefined;
+    const initialCommitPromise = new Promise<void>((resolve) => {
+      resolveInitialCommit = resolve;
+    });
+    const commitInitialResponse: InitialResponseCommitter = (response) => {
+      if (committed) return false;
+      committed = response;
+      resolveInitialCommit?.();
+      return true;
+    };
+
+    const dispatchPromise = options.dispatch(interaction, commitInitialResponse);
+    const settled = await Promise.race([
+      dispatchPromise.then(
+        (response) => ({ kind: 'result' as const, response }),
+        (error: unknown) => ({ kind: 'error' as const, error }),
+      ),
+      initialCommitPromise.then(() => ({ kind: 'committed' as const })),
+    ]);
+
+    if (settled.kind === 'committed') {
+      return {
+        status: 200,
+        body: committed,
+        background: dispatchPromise.catch((error) => options.onError?.(error, 'background')),
+      };
+    }
+
+    if (settled.kind === 'error') {
+      throw settled.error;
+    }
+
+    return { status: 200, body: committed ?? settled.response ?? options.getDefaultResponse(interaction) };
+  } catch (error) {
+    options.onError?.(error, 'request');
+    if (error instanceof InteractionVerificationError) {
+      return { status: 401, body: { error: error.message } };
+    }
+    const message = error instanceof Error ? error.message : '[MiniInteraction] Unknown error';
+    return { status: 500, body: { error: message } };
+  }
+}
+
+/**
+ * Creates a web-standard `Request -> Response` handler for edge runtimes
+ * (Vercel Edge, Cloudflare Workers, Deno Deploy, Bun).
+ */
+export function createFetchInteractionHandler(options: InteractionRequestHandlerOptions): FetchInteractionHandler {
+  return async (request, ctx) => {
+    if (request.bodyUsed) {
+      throw new Error(
+        '[MiniInteraction] Request body was already consumed; Discord signatures must be verified against the raw bytes. Pass the untouched Request to the handler.',
+      );
+    }
+
+    const body = new Uint8Array(await request.arrayBuffer());
+    const result = await handleInteractionRequest(
+      {
+        body,
+        signature: request.headers.get('x-signature-ed25519') ?? undefined,
+        timestamp: request.headers.get('x-signature-timestamp') ?? undefined,
+      },
+      options,
+    );
+
+    if (result.background) {
+      if (ctx?.waitUntil) {
+        ctx.waitUntil(result.background);
+      } else {
+        options.scheduleBackgroundTask?.(result.background);
+      }
+    }
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+    });
+  };
+}
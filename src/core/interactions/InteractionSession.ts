@@ -0,0 +1,274 @@
+import {
+  InteractionType,
+  MessageFlags,
+  type APIInteractionResponse,
+  type APIMessageComponentInteraction,
+  type APIModalSubmitInteraction,
+} from 'discord-api-types/v10';
+import type { MiniDatabase } from '../../database/MiniDatabase.js';
+import type { ParsedInteraction } from '../../types/discord.js';
+import { ValidationError } from '../../types/validation.js';
+import type { InteractionContext } from './InteractionContext.js';
+import { INTERACTION_TOKEN_LIFETIME_MS } from './InteractionLifetime.js';
+
+export type InteractionSessionData = Record<string, unknown>;
+
+/** Persists session data between the interactions of one flow. */
+export interface InteractionSessionStore {
+  /** Resolves `undefined` for unknown or expired sessions. */
+  get(sessionId: string): Promise<InteractionSessionData | undefined> | InteractionSessionData | undefined;
+  /** Replaces the session and restarts its TTL. */
+  set(sessionId: string, data: InteractionSessionData, ttlMs: number): Promise<void> | void;
+  delete(sessionId: string): Promise<void> | void;
+}
+
+export type InteractionSessionOptions = {
+  store: InteractionSessionStore;
+  /** Idle time after which a session expires. Defaults to 15 minutes, the interaction token lifetime. */
+  ttlMs?: number;
+  /**
+   * `interaction` (default) starts a session per command and carries its ID in the
+   * custom_ids built with `session.customId()`. `user` keeps one session per user.
+   */
+  scope?: 'interaction' | 'user';
+  /**
+   * Answers components whose embedded session is gone by disabling the message's
+   * components instead of running the handler. Defaults to `true`.
+   */
+  disableStaleComponents?: boolean;
+};
+
+const SESSION_ID_SUFFIX = /~([A-Za-z0-9_-]{11})$/;
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+/** Splits a custom_id built with {@link InteractionSession.customId} into its route and session ID. */
+export function parseSessionCustomId(customId: string): { customId: string; sessionId?: string } {
+  const match = SESSION_ID_SUFFIX.exec(customId);
+  if (!match) return { customId };
+  return { customId: customId.slice(0, match.index), sessionId: match[1] };
+}
+
+/**
+ * Session for the current interaction. Data is loaded once per interaction and
+ * every write refreshes the TTL.
+ */
+export class InteractionSession {
+  readonly id: string;
+  /** Whether the ID came from the interaction's custom_id rather than being started here. */
+  readonly resumed: boolean;
+  private readonly ttlMs: number;
+  private data?: Promise<InteractionSessionData | undefined>;
+  /** Set once `customId()` hands out the ID of a session that has not been stored yet. */
+  private started = false;
+
+  constructor(
+    interaction: ParsedInteraction,
+    private readonly options: InteractionSessionOptions,
+  ) {
+    this.ttlMs = options.ttlMs ?? INTERACTION_TOKEN_LIFETIME_MS;
+    const userId = interaction.member?.user.id ?? interaction.user?.id;
+    const embedded =
+      'data' in interaction && interaction.data && 'custom_id' in interaction.data
+        ? parseSessionCustomId(interaction.data.custom_id).sessionId
+        : undefined;
+
+    if (options.scope === 'user' && userId) {
+      this.id = `user:${userId}`;
+      this.resumed = false;
+    } else {
+      this.id = embedded ?? createSessionId();
+      this.resumed = embedded !== undefined;
+    }
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return (await this.load())?.[key] as T | undefined;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const data = { ...(await this.load()), [key]: value };
+    await this.save(data);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { [key]: _removed, ...data } = (await this.load()) ?? {};
+    await this.save(data);
+  }
+
+  /** Ends the session; components carrying its ID are treated as stale afterwards. */
+  async destroy(): Promise<void> {
+    this.started = false;
+    this.data = Promise.resolve(undefined);
+    await this.options.store.delete(this.id);
+  }
+
+  /** Whether components carrying an expired session ID are disabled instead of dispatched. */
+  get disablesStaleComponents(): boolean {
+    return this.options.disableStaleComponents !== false;
+  }
+
+  /** Whether the session still exists in the store. */
+  async exists(): Promise<boolean> {
+    return (await this.load()) !== undefined;
+  }
+
+  /**
+   * Appends this session's ID to `customId` so the next interaction resumes it.
+   * Routes still match on the original `customId`.
+   * @throws ValidationError when the result exceeds 100 characters.
+   */
+  customId(customId: string): string {
+    if (this.options.scope === 'user') return customId;
+    const result = `${customId}~${this.id}`;
+    if (result.length > MAX_CUSTOM_ID_LENGTH) {
+      throw new ValidationError(
+        'InteractionSession',
+        'customId',
+        `length ${result.length} with the session ID exceeds ${MAX_CUSTOM_ID_LENGTH} characters`,
+      );
+    }
+    if (!this.resumed) this.started = true;
+    return result;
+  }
+
+  /**
+   * Stores an empty record for a session whose ID was handed out by `customId()`
+   * but never written, so the next interaction resumes it instead of finding it stale.
+   * Called by the context once the handler has finished.
+   */
+  async persist(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+    if ((await this.load()) === undefined) await this.save({});
+  }
+
+  private load(): Promise<InteractionSessionData | undefined> {
+    this.data ??= Promise.resolve(this.options.store.get(this.id));
+    return this.data;
+  }
+
+  private async save(data: InteractionSessionData): Promise<void> {
+    this.data = Promise.resolve(data);
+    await this.options.store.set(this.id, data, this.ttlMs);
+  }
+}
+
+export type MemoryInteractionSessionStoreOptions = {
+  /** Expired sessions are swept once this many are stored. Defaults to 10 000. */
+  maxEntries?: number;
+  now?: () => number;
+};
+
+/** In-process sessions. Serverless instances do not share them; use {@link MiniDatabaseInteractionSessionStore} there. */
+export class MemoryInteractionSessionStore implements InteractionSessionStore {
+  private readonly sessions = new Map<string, { data: InteractionSessionData; expiresAt: number }>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: MemoryInteractionSessionStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get(sessionId: string): InteractionSessionData | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+    if (session.expiresAt <= this.now()) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+    return structuredClone(session.data);
+  }
+
+  set(sessionId: string, data: InteractionSessionData, ttlMs: number): void {
+    const now = this.now();
+    this.sessions.set(sessionId, { data: structuredClone(data), expiresAt: now + ttlMs });
+    if (this.sessions.size > this.maxEntries) {
+      for (const [id, session] of this.sessions) {
+        if (session.expiresAt <= now) this.sessions.delete(id);
+      }
+    }
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+}
+
+export type MiniDatabaseInteractionSessionStoreOptions = {
+  /** Key prefix for stored sessions. Defaults to `interaction-session:`. */
+  keyPrefix?: string;
+  now?: () => number;
+};
+
+/** Shares sessions across instances through `MiniDatabase`. Values must be JSON-serialisable. */
+export class MiniDatabaseInteractionSessionStore implements InteractionSessionStore {
+  private readonly keyPrefix: string;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly database: Pick<MiniDatabase, 'get' | 'set' | 'delete'>,
+    options: MiniDatabaseInteractionSessionStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'interaction-session:';
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(sessionId: string): Promise<InteractionSessionData | undefined> {
+    const stored = await this.database.get(`${this.keyPrefix}${sessionId}`);
+    if (typeof stored?.expiresAt !== 'number' || stored.expiresAt <= this.now()) {
+      return undefined;
+    }
+    return (stored.data ?? {}) as InteractionSessionData;
+  }
+
+  async set(sessionId: string, data: InteractionSessionData, ttlMs: number): Promise<void> {
+    await this.database.set(`${this.keyPrefix}${sessionId}`, { data, expiresAt: this.now() + ttlMs });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.database.delete(`${this.keyPrefix}${sessionId}`);
+  }
+}
+
+const INTERACTIVE_COMPONENT_TYPES = new Set([2, 3, 5, 6, 7, 8]);
+
+/**
+ * Answers a component or modal whose embedded session expired: the source message's
+ * components are disabled, or an ephemeral notice is sent when there is no message.
+ * Resolves `undefined` when the interaction should be dispatched normally.
+ */
+export async function answerStaleSession(
+  interaction: ParsedInteraction,
+  ctx: InteractionContext,
+): Promise<APIInteractionResponse | undefined> {
+  if (interaction.type !== InteractionType.MessageComponent && interaction.type !== InteractionType.ModalSubmit) {
+    return undefined;
+  }
+  const { session } = ctx;
+  if (!session.resumed || !session.disablesStaleComponents || (await session.exists())) {
+    return undefined;
+  }
+
+  const { message } = interaction as APIMessageComponentInteraction | APIModalSubmitInteraction;
+  if (!message) {
+    return ctx.reply({ content: 'This session has expired.', flags: MessageFlags.Ephemeral });
+  }
+  return ctx.update({ components: message.components?.map(disableComponent) as never });
+}
+
+function disableComponent(component: unknown): unknown {
+  if (typeof component !== 'object' || component === null) return component;
+  const copy: Record<string, unknown> = { ...component };
+  if (INTERACTIVE_COMPONENT_TYPES.has(copy.type as number)) copy.disabled = true;
+  if (Array.isArray(copy.components)) copy.components = copy.components.map(disableComponent);
+  if (copy.accessory) copy.accessory = disableComponent(copy.accessory);
+  return copy;
+}
+
+function createSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
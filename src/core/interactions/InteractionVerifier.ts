@@ -1,19 +1,87 @@
 import type { APIInteraction } from 'discord-api-types/v10';
-import { verifyKey } from 'discord-interactions';
+import { verifyInteractionSignature } from './Ed25519Verifier.js';
+import { MemoryInteractionReplayStore, type InteractionReplayStore } from './InteractionReplayStore.js';
 
 export type VerifyInteractionRequest = {
   body: string | Uint8Array;
   signature: string;
   timestamp: string;
   publicKey: string;
+} & InteractionVerificationOptions;
+
+export type InteractionVerificationOptions = {
+  /** Maximum age (or future drift) of `x-signature-timestamp`. Defaults to 300; `Infinity` disables the check. */
+  maxClockSkewSeconds?: number;
+  /** Rejects repeated interaction IDs. `true` uses a process-wide in-memory LRU store. */
+  replayStore?: InteractionReplayStore | boolean;
+  now?: () => number;
 };
 
+/** Base class for requests that must be answered with 401. */
+export class InteractionVerificationError extends Error {
+  constructor(message: string) {
+    super(`[InteractionVerifier] ${message}`);
+    this.name = 'InteractionVerificationError';
+  }
+}
+
+export class InvalidSignatureError extends InteractionVerificationError {
+  constructor() {
+    super('invalid interaction signature');
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+export class StaleTimestampError extends InteractionVerificationError {
+  constructor(readonly timestamp: string, readonly maxClockSkewSeconds: number) {
+    super(`signature timestamp ${timestamp} is outside the allowed ${maxClockSkewSeconds}s window`);
+    this.name = 'StaleTimestampError';
+  }
+}
+
+export class ReplayedInteractionError extends InteractionVerificationError {
+  constructor(readonly interactionId: string) {
+    super(`interaction ${interactionId} was already received`);
+    this.name = 'ReplayedInteractionError';
+  }
+}
+
+const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 300;
+
+let defaultReplayStore: MemoryInteractionReplayStore | undefined;
+
 export async function verifyAndParseInteraction(request: VerifyInteractionRequest): Promise<APIInteraction> {
-  const valid = await verifyKey(request.body, request.signature, request.timestamp, request.publicKey);
+  const valid = await verifyInteractionSignature(request.body, request.signature, request.timestamp, request.publicKey);
   if (!valid) {
-    throw new Error('[InteractionVerifier] invalid interaction signature');
+    throw new InvalidSignatureError();
   }
 
-  const bodyText = typeof request.body === 'string' ? request.body : Buffer.from(request.body).toString('utf8');
-  return JSON.parse(bodyText) as APIInteraction;
+  const maxClockSkewSeconds = request.maxClockSkewSeconds ?? DEFAULT_MAX_CLOCK_SKEW_SECONDS;
+  const now = request.now ?? Date.now;
+  const timestampSeconds = Number(request.timestamp);
+  if (!Number.isFinite(timestampSeconds) || Math.abs(now() / 1000 - timestampSeconds) > maxClockSkewSeconds) {
+    throw new StaleTimestampError(request.timestamp, maxClockSkewSeconds);
+  }
+
+  const bodyText = typeof request.body === 'string' ? request.body : new TextDecoder().decode(request.body);
+  const interaction = JSON.parse(bodyText) as APIInteraction;
+
+  const replayStore = resolveReplayStore(request.replayStore);
+  if (replayStore) {
+    // A replay older than the skew window is already rejected as stale.
+    const ttlMs = Number.isFinite(maxClockSkewSeconds) ? maxClockSkewSeconds * 2 * 1000 : 15 * 60 * 1000;
+    if (!(await replayStore.markSeen(interaction.id, ttlMs))) {
+      throw new ReplayedInteractionError(interaction.id);
+    }
+  }
+
+  return interaction;
+}
+
+function resolveReplayStore(store: VerifyInteractionRequest['replayStore']): InteractionReplayStore | undefined {
+  if (store === true) {
+    defaultReplayStore ??= new MemoryInteractionReplayStore();
+    return defaultReplayStore;
+  }
+  return store || undefined;
 }
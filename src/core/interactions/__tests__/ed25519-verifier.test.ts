@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { verifyEd25519, verifyEd25519Fallback, verifyInteractionSignature } from '../Ed25519Verifier.js';
+
+// RFC 8032 section 7.1, tests 1-3.
+const vectors = [
+  {
+    publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    message: '',
+    signature:
+      'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+  },
+  {
+    publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    message: '72',
+    signature:
+      '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+  },
+  {
+    publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+    message: 'af82',
+    signature:
+      '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a',
+  },
+];
+
+const hex = (value: string) => Uint8Array.from(Buffer.from(value, 'hex'));
+
+test('RFC 8032 vectors verify through SubtleCrypto and the BigInt fallback', async () => {
+  for (const vector of vectors) {
+    const message = hex(vector.message);
+    assert.equal(await verifyEd25519(vector.publicKey, vector.signature, message), true);
+    assert.equal(await verifyEd25519Fallback(hex(vector.publicKey), hex(vector.signature), message), true);
+
+    const tampered = Uint8Array.from([...message, 0]);
+    assert.equal(await verifyEd25519(vector.publicKey, vector.signature, tampered), false);
+    assert.equal(await verifyEd25519Fallback(hex(vector.publicKey), hex(vector.signature), tampered), false);
+  }
+});
+
+test('malformed keys and signatures are rejected without throwing', async () => {
+  const [vector] = vectors;
+  assert.equal(await verifyEd25519('zz', vector.signature, new Uint8Array()), false);
+  assert.equal(await verifyEd25519(vector.publicKey, vector.signature.slice(2), new Uint8Array()), false);
+  assert.equal(await verifyEd25519('00'.repeat(31) + '80', vector.signature, new Uint8Array()), false);
+});
+
+test('interaction signatures cover timestamp + exact body bytes', async () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const publicKeyHex = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url').toString('hex');
+  // Invalid UTF-8 would not survive a decode/encode round trip.
+  const body = Uint8Array.from([0x7b, 0xff, 0xfe, 0x7d]);
+  const timestamp = '1700000000';
+  const signature = sign(null, Buffer.concat([Buffer.from(timestamp), body]), privateKey).toString('hex');
+
+  assert.equal(await verifyInteractionSignature(body, signature, timestamp, publicKeyHex), true);
+  assert.equal(await verifyInteractionSignature(new TextDecoder().decode(body), signature, timestamp, publicKeyHex), false);
+  assert.equal(await verifyInteractionSignature(body, signature, '1700000001', publicKeyHex.toUpperCase()), false);
+});
@@ -0,0 +1,96 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { InteractionResponseType, InteractionType } from 'discord-api-types/v10';
+import { toExpressMiddleware, toFastifyPlugin, toHonoHandler, toNextRouteHandler } from '../FrameworkAdapters.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const options = {
+  publicKey: Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url').toString('hex'),
+  dispatch: async () => ({ type: InteractionResponseType.ChannelMessageWithSource, data: { content: 'pong' } }) as const,
+  getDefaultResponse: () => ({ type: InteractionResponseType.DeferredChannelMessageWithSource }) as const,
+};
+
+// Spacing that JSON.stringify would not reproduce, so re-serialised bodies fail verification.
+const body = '{ "id": "1", "application_id": "app", "type": 2, "token": "tok", "version": 1, "data": { "id": "c", "name": "ping", "type": 1 } }';
+const timestamp = String(Math.floor(Date.now() / 1000));
+const headers = {
+  'x-signature-ed25519': sign(null, Buffer.from(timestamp + body), privateKey).toString('hex'),
+  'x-signature-timestamp': timestamp,
+};
+
+function createExpressResponse() {
+  const sent: { status?: number; body?: unknown } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      sent.body = payload;
+    },
+  };
+  return { res, sent };
+}
+
+test('express middleware verifies the streamed raw body', async () => {
+  const { res, sent } = createExpressResponse();
+  const req = Object.assign(Readable.from([Buffer.from(body)]), { headers });
+  await toExpressMiddleware(options)(req, res, (error) => assert.fail(String(error)));
+  assert.deepEqual(sent, { status: 200, body: { type: 4, data: { content: 'pong' } } });
+});
+
+test('express middleware refuses bodies already parsed by express.json()', async () => {
+  const { res } = createExpressResponse();
+  const req = { headers, body: JSON.parse(body), readableEnded: true };
+  let failure: unknown;
+  await toExpressMiddleware(options)(req, res, (error) => (failure = error));
+  assert.match(String(failure), /already consumed or parsed.*express\.raw/);
+});
+
+test('fastify plugin registers a scoped buffer parser and route', async () => {
+  let route: ((request: any, reply: any) => Promise<unknown>) | undefined;
+  const parsers: string[] = [];
+  await toFastifyPlugin(options)(
+    {
+      addContentTypeParser: (type) => void parsers.push(type),
+      post: (path, handler) => {
+        assert.equal(path, '/interactions');
+        route = handler;
+      },
+    },
+    { path: '/interactions' },
+  );
+  assert.deepEqual(parsers, ['application/json']);
+
+  const sent: { code?: number; payload?: unknown } = {};
+  const reply = {
+    code(code: number) {
+      sent.code = code;
+      return reply;
+    },
+    send(payload: unknown) {
+      sent.payload = payload;
+    },
+  };
+  await route?.({ headers, body: Buffer.from(body) }, reply);
+  assert.deepEqual(sent, { code: 200, payload: { type: 4, data: { content: 'pong' } } });
+  await assert.rejects(() => route!({ headers, body: JSON.parse(body) }, reply), /fastify-plugin/);
+});
+
+test('hono handler reuses cached text bodies and rejects consumed ones', async () => {
+  const raw = new Request('https://example.test/interactions', { method: 'POST', headers, body });
+  await raw.json();
+
+  const response = await toHonoHandler(options)({ req: { raw, bodyCache: { text: Promise.resolve(body) } } });
+  assert.equal(response.status, 200);
+
+  await assert.rejects(() => toHonoHandler(options)({ req: { raw, bodyCache: {} } }), /c\.req\.json\(\)/);
+});
+
+test('next route handler accepts MiniInteraction-style sources', async () => {
+  const handler = toNextRouteHandler({ getRequestHandlerOptions: () => options });
+  const response = await handler(new Request('https://example.test/interactions', { method: 'POST', headers, body }));
+  assert.deepEqual(await response.json(), { type: 4, data: { content: 'pong' } });
+});
@@ -1,12 +1,13 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { InteractionContext } from '../InteractionContext.js';
+import { InteractionExpiredError } from '../InteractionLifetime.js';
 import { DiscordRestClient } from '../../http/DiscordRestClient.js';
 
 function createRest() {
   const calls: string[] = [];
-  const fetchImpl: typeof fetch = (async (input) => {
-    calls.push(String(input));
+  const fetchImpl: typeof fetch = (async (input, init) => {
+    calls.push(`${init?.method ?? 'GET'} ${String(input).replace('https://discord.com/api/v10', '')}`);
     return new Response(JSON.stringify({ ok: true }), { status: 200 });
   }) as typeof fetch;
   return {
@@ -15,7 +16,12 @@ function createRest() {
   };
 }
 
-const interaction = { id: '1', application_id: 'a', type: 2, token: 'tok', version: 1 } as any;
+/** Interaction snowflake created `ageMs` ago. */
+function snowflake(ageMs = 0): string {
+  return String((BigInt(Date.now() - ageMs) - 1420070400000n) << 22n);
+}
+
+const interaction = { id: snowflake(), application_id: 'a', type: 2, token: 'tok', version: 1 } as any;
 
 test('reply/defer lifecycle', () => {
   const { rest } = createRest();
@@ -25,13 +31,36 @@ test('reply/defer lifecycle', () => {
   assert.equal(ctx.hasResponded, true);
 });
 
+test('only one initial response is produced per interaction', () => {
+  const { rest } = createRest();
+  const ctx = new InteractionContext({ interaction, rest });
+  ctx.deferReply(true);
+  assert.throws(() => ctx.reply({ content: 'late' }), /already has an initial response/);
+});
+
+test('response types are checked against the interaction type', () => {
+  const { rest } = createRest();
+  const component = { ...interaction, type: 3 };
+  assert.throws(() => new InteractionContext({ interaction, rest }).update({ content: 'x' }), /UpdateMessage is not a valid response to ApplicationCommand/);
+  assert.throws(() => new InteractionContext({ interaction: component, rest }).autocomplete([]), /ApplicationCommandAutocompleteResult/);
+  assert.deepEqual(new InteractionContext({ interaction: component, rest }).deferUpdate(), { type: 6 });
+  assert.deepEqual(new InteractionContext({ interaction: component, rest }).update({ content: 'x' }), { type: 7, data: { content: 'x' } });
+  assert.equal(new InteractionContext({ interaction, rest }).launchActivity().type, 12);
+  assert.equal(new InteractionContext({ interaction, rest }).premiumRequired().type, 10);
+
+  const autocomplete = new InteractionContext({ interaction: { ...interaction, type: 4 }, rest });
+  assert.throws(() => autocomplete.autocomplete([{ name: '', value: 1 }]), /between 1 and 100/);
+  assert.deepEqual(autocomplete.autocomplete([{ name: 'a', value: 1 }]), { type: 8, data: { choices: [{ name: 'a', value: 1 }] } });
+  assert.throws(() => new InteractionContext({ interaction: { ...interaction, type: 5 }, rest }).showModal({ custom_id: 'm', title: 't', components: [] }), /Modal is not a valid/);
+});
+
 test('editReply and followUp call webhook endpoints', async () => {
   const { rest, calls } = createRest();
   const ctx = new InteractionContext({ interaction, rest });
   await ctx.editReply({ content: 'edit' });
   await ctx.followUp({ content: 'next' });
   assert.equal(calls.length, 2);
-  assert.match(calls[0], /messages\/\@original/);
+  assert.match(calls[0], /PATCH .*messages\/\@original/);
 });
 
 test('editReply retries transient transport failures', async () => {
@@ -66,3 +95,134 @@ test('auto-ack diagnostics callback fires for slow handler', async () => {
   await new Promise((resolve) => setTimeout(resolve, 20));
   assert.match(message, /auto-ack triggered/);
 });
+
+test('auto-ack commits a deferral and turns a late reply into an edit', async () => {
+  const { rest, calls } = createRest();
+  const committed: unknown[] = [];
+  const ctx = new InteractionContext({
+    interaction,
+    rest,
+    autoAck: { enabled: true, delayMs: 5, ephemeral: true },
+    commitInitialResponse: (response) => committed.push(response) > 0,
+  });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  assert.deepEqual(committed, [{ type: 5, data: { flags: 64 } }]);
+  assert.equal(ctx.wasAutoDeferred, true);
+  assert.deepEqual(ctx.reply({ content: 'done', flags: 64 }), { type: 5, data: { flags: 64 } });
+  assert.deepEqual(ctx.deferReply(), { type: 5, data: { flags: 64 } });
+  assert.throws(() => ctx.showModal({ custom_id: 'm', title: 't', components: [] }), /cannot be sent after/);
+  await ctx.settled();
+  assert.deepEqual(calls, ['PATCH /webhooks/app/tok/messages/@original']);
+});
+
+test('auto-ack falls back to the callback endpoint and defers component updates', async () => {
+  const { rest, calls } = createRest();
+  const component = { ...interaction, type: 3 };
+  const ctx = new InteractionContext({ interaction: component, rest, autoAck: { enabled: true, delayMs: 5 } });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  ctx.update({ content: 'updated' });
+  ctx.reply({ content: 'new message' });
+  await ctx.settled();
+  assert.deepEqual(calls, [
+    `POST /interactions/${interaction.id}/tok/callback`,
+    'PATCH /webhooks/app/tok/messages/@original',
+    'POST /webhooks/app/tok',
+  ]);
+});
+
+test('converted replies wait for the auto-ack callback and are dropped when it fails', async () => {
+  for (const status of [204, 404]) {
+    const calls: string[] = [];
+    let finishCallback!: () => void;
+    const callback = new Promise<void>((resolve) => (finishCallback = resolve));
+    const fetchImpl: typeof fetch = (async (input, init) => {
+      const call = `${init?.method ?? 'GET'} ${String(input).replace('https://discord.com/api/v10', '')}`;
+      calls.push(call);
+      if (call.endsWith('/callback')) {
+        await callback;
+        return status === 204
+          ? new Response(null, { status })
+          : new Response(JSON.stringify({ code: 10062, message: 'Unknown interaction' }), { status });
+      }
+      return new Response(JSON.stringify({ id: 'm1' }), { status: 200 });
+    }) as typeof fetch;
+    const rest = new DiscordRestClient({ token: 'x', applicationId: 'app', fetchImplementation: fetchImpl });
+    const ctx = new InteractionContext({ interaction, rest, autoAck: { enabled: true, delayMs: 5 } });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    ctx.reply({ content: 'late' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.deepEqual(calls, [`POST /interactions/${interaction.id}/tok/callback`]);
+
+    finishCallback();
+    if (status === 204) {
+      await ctx.settled();
+      assert.deepEqual(calls.slice(1), ['PATCH /webhooks/app/tok/messages/@original']);
+    } else {
+      await assert.rejects(ctx.settled(), /Unknown interaction/);
+      assert.equal(calls.length, 1);
+    }
+  }
+});
+
+test('auto-ack stays idle once the handler responded', async () => {
+  const { rest, calls } = createRest();
+  const ctx = new InteractionContext({ interaction, rest, autoAck: { enabled: true, delayMs: 5 } });
+  ctx.reply({ content: 'fast' });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(ctx.wasAutoDeferred, false);
+  assert.deepEqual(calls, []);
+});
+
+test('webhook calls enforce the initial window and the token lifetime', async () => {
+  const { rest, calls } = createRest();
+  const unacknowledged = new InteractionContext({ interaction: { ...interaction, id: snowflake(4000) }, rest });
+  assert.throws(() => unacknowledged.editReply({ content: 'late' }), InteractionExpiredError);
+
+  const deferred = new InteractionContext({ interaction: { ...interaction, id: snowflake(60_000) }, rest });
+  deferred.deferReply();
+  await deferred.followUp({ content: 'still valid' });
+  assert.ok(deferred.expiresAt! > Date.now());
+
+  const stale = new InteractionContext({ interaction: { ...interaction, id: snowflake(16 * 60_000) }, rest });
+  stale.deferReply();
+  assert.throws(() => stale.followUp({ content: 'too late' }), /cannot followUp: its response window has expired/);
+  assert.equal(calls.length, 1);
+});
+
+test('follow-up messages are managed through the interaction webhook', async () => {
+  const calls: string[] = [];
+  const fetchImpl: typeof fetch = (async (input, init) => {
+    const auth = (init?.headers as Record<string, string> | undefined)?.Authorization ? 'bot' : 'webhook';
+    calls.push(`${init?.method ?? 'GET'} ${String(input).replace('https://discord.com/api/v10', '')} ${auth}`);
+    if (init?.method === 'DELETE') return new Response(null, { status: 204 });
+    return new Response(JSON.stringify({ id: 'msg_2', channel_id: 'chan' }), { status: 200 });
+  }) as typeof fetch;
+  const rest = new DiscordRestClient({ token: 'x', applicationId: 'app', fetchImplementation: fetchImpl });
+  const ctx = new InteractionContext({ interaction, rest });
+  ctx.deferReply();
+
+  const followUp = await ctx.followUp({ content: 'page 1' });
+  const edited = await followUp.edit({ content: 'page 2' });
+  await edited.delete();
+  await ctx.getFollowupMessage('msg_2');
+  await ctx.editFollowupMessage('msg_2', { content: 'page 3' });
+  await ctx.deleteFollowupMessage('msg_2');
+  const original = await ctx.helpers.messages.getOriginalMessage();
+  await original.delete();
+  await ctx.deleteOriginalMessage();
+
+  assert.deepEqual(calls, [
+    'POST /webhooks/app/tok webhook',
+    'PATCH /webhooks/app/tok/messages/msg_2 webhook',
+    'DELETE /webhooks/app/tok/messages/msg_2 webhook',
+    'GET /webhooks/app/tok/messages/msg_2 webhook',
+    'PATCH /webhooks/app/tok/messages/msg_2 webhook',
+    'DELETE /webhooks/app/tok/messages/msg_2 webhook',
+    'GET /webhooks/app/tok/messages/@original webhook',
+    'DELETE /webhooks/app/tok/messages/msg_2 webhook',
+    'DELETE /webhooks/app/tok/messages/@original webhook',
+  ]);
+});
@@ -0,0 +1,89 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { InteractionResponseType, InteractionType } from 'discord-api-types/v10';
+import { createFetchInteractionHandler } from '../InteractionRequestHandler.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyHex = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url').toString('hex');
+
+function signedRequest(payload: unknown): Request {
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+  return new Request('https://example.test/interactions', {
+    method: 'POST',
+    body,
+    headers: { 'x-signature-ed25519': signature, 'x-signature-timestamp': timestamp },
+  });
+}
+
+const command = { id: '1', application_id: 'app', type: InteractionType.ApplicationCommand, token: 'tok', version: 1, data: { id: 'c', name: 'ping', type: 1 } };
+const deferred = { type: InteractionResponseType.DeferredChannelMessageWithSource } as const;
+
+test('fetch handler answers PING and rejects unsigned requests', async () => {
+  const handler = createFetchInteractionHandler({
+    publicKey: publicKeyHex,
+    dispatch: async () => undefined,
+    getDefaultResponse: () => deferred,
+  });
+
+  const pong = await handler(signedRequest({ type: InteractionType.Ping }));
+  assert.equal(pong.status, 200);
+  assert.deepEqual(await pong.json(), { type: InteractionResponseType.Pong });
+
+  const unsigned = await handler(new Request('https://example.test/interactions', { method: 'POST', body: '{}' }));
+  assert.equal(unsigned.status, 401);
+});
+
+test('fetch handler returns the dispatch result or the default response', async () => {
+  const handler = createFetchInteractionHandler({
+    publicKey: publicKeyHex,
+    dispatch: async (interaction) =>
+      (interaction as any).data.name === 'ping' ? { type: InteractionResponseType.ChannelMessageWithSource, data: { content: 'pong' } } : undefined,
+    getDefaultResponse: () => deferred,
+  });
+
+  const response = await handler(signedRequest(command));
+  assert.deepEqual(await response.json(), { type: 4, data: { content: 'pong' } });
+
+  const fallback = await handler(signedRequest({ ...command, data: { ...command.data, name: 'other' } }));
+  assert.deepEqual(await fallback.json(), deferred);
+});
+
+test('fetch handler responds as soon as the initial response is committed', async () => {
+  let finishHandler: (() => void) | undefined;
+  const scheduled: Promise<unknown>[] = [];
+  const handler = createFetchInteractionHandler({
+    publicKey: publicKeyHex,
+    dispatch: async (_interaction, commit) => {
+      commit(deferred);
+      await new Promise<void>((resolve) => (finishHandler = resolve));
+    },
+    getDefaultResponse: () => deferred,
+  });
+
+  const response = await handler(signedRequest(command), { waitUntil: (promise) => void scheduled.push(promise) });
+  assert.deepEqual(await response.json(), deferred);
+  assert.equal(scheduled.length, 1);
+  finishHandler?.();
+  await scheduled[0];
+});
+
+test('verification failures are answered with 401', async () => {
+  const handler = createFetchInteractionHandler({
+    publicKey: publicKeyHex,
+    dispatch: async () => undefined,
+    getDefaultResponse: () => deferred,
+    replayStore: true,
+  });
+
+  const request = signedRequest({ ...command, id: 'replayed' });
+  const replay = request.clone();
+  assert.equal((await handler(request)).status, 200);
+  assert.equal((await handler(replay)).status, 401);
+
+  const tampered = signedRequest(command);
+  const forged = new Request(tampered.url, { method: 'POST', headers: tampered.headers, body: JSON.stringify({ ...command, id: '2' }) });
+  assert.equal((await handler(forged)).status, 401);
+});
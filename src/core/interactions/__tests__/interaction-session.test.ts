@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType, InteractionType } from 'discord-api-types/v10';
+import { InteractionContext } from '../InteractionContext.js';
+import { MemoryInteractionSessionStore, MiniDatabaseInteractionSessionStore } from '../InteractionSession.js';
+import { DiscordRestClient } from '../../http/DiscordRestClient.js';
+import { InteractionRouter } from '../../../router/InteractionRouter.js';
+import { ValidationError } from '../../../types/validation.js';
+
+const rest = new DiscordRestClient({ token: 'x', applicationId: 'app' });
+const base = { id: '1', application_id: 'app', token: 'tok', version: 1, user: { id: 'u1' } };
+
+function component(customId: string) {
+  return {
+    ...base,
+    type: InteractionType.MessageComponent,
+    data: { custom_id: customId, component_type: 2 },
+    message: {
+      id: 'm1',
+      components: [{ type: 1, components: [{ type: 2, style: 1, label: 'Confirm', custom_id: customId }] }],
+    },
+  } as any;
+}
+
+test('sessions carry state across interactions through the custom_id', async () => {
+  let now = 0;
+  const sessions = { store: new MemoryInteractionSessionStore({ now: () => now }), ttlMs: 60_000 };
+  const router = new InteractionRouter();
+  let confirmCustomId = '';
+  router.onCommand('roles', async (_i, ctx) => {
+    await ctx.session.set('roleId', 'r1');
+    confirmCustomId = ctx.session.customId('roles:confirm');
+    return ctx.reply({ content: 'Confirm?' });
+  });
+  router.onComponent('roles:confirm', async (_i, ctx) => ctx.update({ content: `Added <@&${await ctx.session.get('roleId')}>` }));
+
+  const command = { ...base, type: InteractionType.ApplicationCommand, data: { id: 'c', name: 'roles', type: 1 } } as any;
+  await router.dispatch(command, new InteractionContext({ interaction: command, rest, sessions }));
+  assert.match(confirmCustomId, /^roles:confirm~[A-Za-z0-9_-]{11}$/);
+
+  const click = component(confirmCustomId);
+  assert.deepEqual(await router.dispatch(click, new InteractionContext({ interaction: click, rest, sessions })), {
+    type: InteractionResponseType.UpdateMessage,
+    data: { content: 'Added <@&r1>' },
+  });
+
+  now = 60_000;
+  let ran = false;
+  router.onComponent('roles:confirm', () => void (ran = true));
+  assert.deepEqual(await router.dispatch(click, new InteractionContext({ interaction: click, rest, sessions })), {
+    type: InteractionResponseType.UpdateMessage,
+    data: {
+      components: [{ type: 1, components: [{ type: 2, style: 1, label: 'Confirm', custom_id: confirmCustomId, disabled: true }] }],
+    },
+  });
+  assert.equal(ran, false);
+});
+
+test('a session started only through customId() survives until the first click', async () => {
+  const sessions = { store: new MemoryInteractionSessionStore() };
+  const router = new InteractionRouter();
+  let nextCustomId = '';
+  router.onCommand('wizard', (_i, ctx) => {
+    nextCustomId = ctx.session.customId('wizard:next');
+    return ctx.reply({ content: 'Step 1' });
+  });
+  router.onComponent('wizard:next', async (_i, ctx) => {
+    await ctx.session.set('step', 2);
+    return ctx.update({ content: 'Step 2' });
+  });
+
+  const command = { ...base, type: InteractionType.ApplicationCommand, data: { id: 'c', name: 'wizard', type: 1 } } as any;
+  await router.dispatch(command, new InteractionContext({ interaction: command, rest, sessions }));
+  const sessionId = nextCustomId.split('~')[1];
+  assert.deepEqual(await sessions.store.get(sessionId), {});
+
+  const click = component(nextCustomId);
+  assert.deepEqual(await router.dispatch(click, new InteractionContext({ interaction: click, rest, sessions })), {
+    type: InteractionResponseType.UpdateMessage,
+    data: { content: 'Step 2' },
+  });
+  assert.deepEqual(await sessions.store.get(sessionId), { step: 2 });
+});
+
+test('session custom_ids are length-checked and MiniDatabase sessions expire', async () => {
+  const rows = new Map<string, Record<string, unknown>>();
+  const database = {
+    get: async (key: string) => rows.get(key) ?? null,
+    set: async (key: string, data: Record<string, unknown>) => (rows.set(key, data), true),
+    delete: async (key: string) => rows.delete(key),
+  };
+  let now = 0;
+  const store = new MiniDatabaseInteractionSessionStore(database, { now: () => now });
+  const interaction = component('x');
+  const ctx = new InteractionContext({ interaction, rest, sessions: { store, ttlMs: 1_000 } });
+
+  assert.throws(() => ctx.session.customId('x'.repeat(90)), ValidationError);
+  await ctx.session.set('step', 2);
+  assert.deepEqual(await store.get(ctx.session.id), { step: 2 });
+  now = 1_000;
+  assert.equal(await store.get(ctx.session.id), undefined);
+  await ctx.session.destroy();
+  assert.equal(rows.size, 0);
+  assert.throws(() => new InteractionContext({ interaction, rest }).session, /sessions are not configured/);
+});
@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import {
+  InvalidSignatureError,
+  ReplayedInteractionError,
+  StaleTimestampError,
+  verifyAndParseInteraction,
+} from '../InteractionVerifier.js';
+import { MemoryInteractionReplayStore, MiniDatabaseInteractionReplayStore } from '../InteractionReplayStore.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyHex = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url').toString('hex');
+const body = JSON.stringify({ id: '42', application_id: 'app', type: 1, token: 'tok', version: 1 });
+
+function signed(timestamp: string) {
+  return {
+    body,
+    timestamp,
+    signature: sign(null, Buffer.from(timestamp + body), privateKey).toString('hex'),
+    publicKey: publicKeyHex,
+  };
+}
+
+test('rejects bad signatures and timestamps outside the skew window', async () => {
+  const now = () => 1_700_000_000_000;
+  await assert.rejects(
+    () => verifyAndParseInteraction({ ...signed('1700000000'), body: body.replace('42', '43'), now }),
+    InvalidSignatureError,
+  );
+  await assert.rejects(() => verifyAndParseInteraction({ ...signed('1699999000'), now }), StaleTimestampError);
+  await assert.rejects(
+    () => verifyAndParseInteraction({ ...signed('1700000100'), now, maxClockSkewSeconds: 60 }),
+    StaleTimestampError,
+  );
+
+  const interaction = await verifyAndParseInteraction({ ...signed('1699999000'), now, maxClockSkewSeconds: Infinity });
+  assert.equal(interaction.id, '42');
+});
+
+test('replay stores reject repeated interaction IDs until they expire', async () => {
+  let clock = 1_700_000_000_000;
+  const now = () => clock;
+  const replayStore = new MemoryInteractionReplayStore({ now, maxEntries: 2 });
+  const request = { ...signed('1700000000'), now, replayStore };
+
+  await verifyAndParseInteraction(request);
+  await assert.rejects(() => verifyAndParseInteraction(request), ReplayedInteractionError);
+
+  clock += 601_000;
+  assert.equal(replayStore.markSeen('42', 1000), true);
+
+  replayStore.markSeen('a', 1000);
+  replayStore.markSeen('b', 1000);
+  assert.equal(replayStore.markSeen('42', 1000), true, 'oldest entry is evicted past maxEntries');
+});
+
+test('MiniDatabase replay store persists expiry timestamps', async () => {
+  const records = new Map<string, Record<string, unknown>>();
+  const database = {
+    get: async (key: string) => records.get(key) ?? null,
+    set: async (key: string, data: Record<string, unknown>) => (records.set(key, data), true),
+  };
+  const store = new MiniDatabaseInteractionReplayStore(database, { now: () => 1000 });
+
+  assert.equal(await store.markSeen('42', 500), true);
+  assert.equal(await store.markSeen('42', 500), false);
+  assert.deepEqual(records.get('interaction-replay:42'), { expiresAt: 1500 });
+});
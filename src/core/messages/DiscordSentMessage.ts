@@ -2,14 +2,23 @@ import type { APIChannel, APIMessage } from "discord-api-types/v10";
 
 import type { DiscordRestClient } from "../http/DiscordRestClient.js";
 import type {
+	BaseDiscordMessageOptions,
+	DiscordChannelMessageOptions,
 	DiscordReaction,
 	DiscordStartThreadOptions,
 } from "./message-payloads.js";
 
+/** Webhook a message was sent through; its edits and deletes must use it too. */
+export type DiscordMessageWebhook = {
+	id: string;
+	token: string;
+};
+
 export class DiscordSentMessage {
 	constructor(
 		private readonly rest: DiscordRestClient,
 		public readonly raw: APIMessage,
+		private readonly webhook?: DiscordMessageWebhook,
 	) {}
 
 	get id(): string {
@@ -35,6 +44,64 @@ export class DiscordSentMessage {
 		return this;
 	}
 
+	/** Removes the bot's reaction, or `userId`'s when given. */
+	async removeReaction(reaction: DiscordReaction, userId?: string): Promise<this> {
+		await this.rest.removeReaction(this.channelId, this.id, reaction, userId);
+		return this;
+	}
+
+	async clearReactions(): Promise<this> {
+		await this.rest.clearReactions(this.channelId, this.id);
+		return this;
+	}
+
+	/** Resolves the edited message; this instance keeps the state it was created with. */
+	edit(options: BaseDiscordMessageOptions): Promise<DiscordSentMessage> {
+		if (this.webhook) {
+			return this.rest.editWebhookMessage(this.webhook.id, this.webhook.token, this.id, options);
+		}
+		return this.rest.editMessage(this.channelId, this.id, options);
+	}
+
+	/** `reason` only applies to messages deleted with the bot token. */
+	delete(reason?: string): Promise<void> {
+		if (this.webhook) {
+			return this.rest.deleteWebhookMessage(this.webhook.id, this.webhook.token, this.id);
+		}
+		return this.rest.deleteMessage(this.channelId, this.id, reason);
+	}
+
+	async pin(reason?: string): Promise<this> {
+		await this.rest.pinMessage(this.channelId, this.id, reason);
+		return this;
+	}
+
+	async unpin(reason?: string): Promise<this> {
+		await this.rest.unpinMessage(this.channelId, this.id, reason);
+		return this;
+	}
+
+	crosspost(): Promise<DiscordSentMessage> {
+		return this.rest.crosspostMessage(this.channelId, this.id);
+	}
+
+	/** Re-reads the message from Discord. */
+	fetch(): Promise<DiscordSentMessage> {
+		if (this.webhook) {
+			return this.rest.getWebhookMessage(this.webhook.id, this.webhook.token, this.id);
+		}
+		return this.rest.getMessage(this.channelId, this.id);
+	}
+
+	/** Sends a message in the same channel that replies to this one. */
+	reply(options: Omit<DiscordChannelMessageOptions, "messageReference">): Promise<DiscordSentMessage> {
+		return this.rest.sendMessage({
+			...options,
+			channelId: this.channelId,
+			messageReference: { message_id: this.id },
+		});
+	}
+
 	toJSON(): APIMessage {
 		return this.raw;
 	}
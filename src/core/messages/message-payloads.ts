@@ -1,6 +1,6 @@
 import { MessageFlags } from "discord-api-types/v10";
 
-import type { APIAllowedMentions } from "discord-api-types/v10";
+import type { APIAllowedMentions, RESTAPIMessageReference } from "discord-api-types/v10";
 
 import {
 	normaliseInteractionMessageData,
@@ -22,7 +22,12 @@ export type BaseDiscordMessageOptions = Omit<InteractionMessageData, "flags"> &
 	files?: DiscordMessageFile[];
 };
 
-export type DiscordSendMessageOptions = BaseDiscordMessageOptions & {
+export type DiscordChannelMessageOptions = BaseDiscordMessageOptions & {
+	/** Sends the message as a reply; see `DiscordSentMessage.reply`. */
+	messageReference?: RESTAPIMessageReference;
+};
+
+export type DiscordSendMessageOptions = DiscordChannelMessageOptions & {
 	channelId: string;
 };
 
@@ -50,7 +55,7 @@ export type DiscordReaction =
 	  };
 
 export function normaliseDiscordMessagePayload(
-	options: BaseDiscordMessageOptions,
+	options: DiscordChannelMessageOptions,
 ): Record<string, unknown> {
 	const payload = normaliseInteractionMessageData({
 		content: options.content,
@@ -72,6 +77,10 @@ export function normaliseDiscordMessagePayload(
 		resolvedPayload.allowed_mentions = options.allowedMentions;
 	}
 
+	if (options.messageReference) {
+		resolvedPayload.message_reference = options.messageReference;
+	}
+
 	if (options.stickerIds && options.stickerIds.length > 0) {
 		resolvedPayload.sticker_ids = options.stickerIds;
 	}
@@ -90,7 +99,7 @@ export function normaliseDiscordMessagePayload(
 }
 
 export function createMessageRequestInit(
-	options: BaseDiscordMessageOptions,
+	options: DiscordChannelMessageOptions,
 ): {
 	body: BodyInit;
 	headers?: HeadersInit;
@@ -10,7 +10,9 @@ export {
 } from "./commands/ContextMenuCommandBuilder.js";
 export type {
 	AttachmentOptionBuilder,
+	BooleanOptionBuilder,
 	ChannelOptionBuilder,
+	IntegerOptionBuilder,
 	MentionableOptionBuilder,
 	NumberOptionBuilder,
 	RoleOptionBuilder,
@@ -28,6 +30,16 @@ export {
 	MentionableOption,
         ResolvedUserOption,
 } from "./utils/CommandInteractionOptions.js";
+export type { FocusedCommandOption } from "./utils/CommandInteractionOptions.js";
+export {
+	AutocompleteInteraction,
+	assertAutocompleteChoices,
+	createAutocompleteInteraction,
+} from "./utils/AutocompleteInteraction.js";
+export type {
+	AutocompleteChoice,
+	AutocompleteFocusedOption,
+} from "./utils/AutocompleteInteraction.js";
 export {
         UserContextMenuInteraction,
         MessageContextMenuInteraction,
@@ -35,6 +47,7 @@ export {
 } from "./utils/ContextMenuInteraction.js";
 export type {
         InteractionCommand,
+        AutocompleteHandler,
         SlashCommandHandler,
         UserCommandHandler,
         MessageCommandHandler,
@@ -44,6 +57,7 @@ export type {
         InteractionComponent,
         InteractionModal,
 } from "./types/Commands.js";
+export { defineComponent, defineModal } from "./types/Commands.js";
 export {
 	MessageComponentInteraction,
 	ButtonInteraction,
@@ -103,9 +117,36 @@ export type {
 
 // New v10 core modules
 export { DiscordRestClient } from "./core/http/DiscordRestClient.js";
-export type { DiscordRestClientOptions } from "./core/http/DiscordRestClient.js";
+export type { DiscordRequestInit, DiscordRestClientOptions } from "./core/http/DiscordRestClient.js";
+export { ExponentialBackoffRetryPolicy } from "./core/http/RetryPolicy.js";
+export type {
+	ExponentialBackoffOptions,
+	RetryContext,
+	RetryPolicy,
+} from "./core/http/RetryPolicy.js";
+export { RateLimitManager, getRateLimitRoute } from "./core/http/RateLimitManager.js";
+export {
+	DiscordAPIError,
+	DiscordHTTPError,
+	RateLimitError,
+	flattenFieldErrors,
+} from "./core/http/DiscordAPIError.js";
+export type {
+	DiscordErrorBody,
+	DiscordFieldError,
+	DiscordRequestDetails,
+} from "./core/http/DiscordAPIError.js";
+export type {
+	RateLimitManagerOptions,
+	RateLimitRoute,
+	RateLimitSendOptions,
+} from "./core/http/RateLimitManager.js";
 export { DiscordSentMessage } from "./core/messages/DiscordSentMessage.js";
+export type { DiscordMessageWebhook } from "./core/messages/DiscordSentMessage.js";
+export type { InteractionWebhookMessages } from "./utils/interactionWebhookMessages.js";
 export type {
+	BaseDiscordMessageOptions,
+	DiscordChannelMessageOptions,
 	DiscordMessageFile,
 	DiscordReaction,
 	DiscordSendMessageOptions,
@@ -114,14 +155,156 @@ export type {
 } from "./core/messages/message-payloads.js";
 export { DiscordWebhook } from "./core/webhooks/DiscordWebhook.js";
 export { InteractionContext } from "./core/interactions/InteractionContext.js";
-export type { InteractionContextOptions } from "./core/interactions/InteractionContext.js";
-export { verifyAndParseInteraction } from "./core/interactions/InteractionVerifier.js";
+export {
+	answerStaleSession,
+	InteractionSession,
+	MemoryInteractionSessionStore,
+	MiniDatabaseInteractionSessionStore,
+	parseSessionCustomId,
+} from "./core/interactions/InteractionSession.js";
+export type {
+	InteractionSessionData,
+	InteractionSessionOptions,
+	InteractionSessionStore,
+	MemoryInteractionSessionStoreOptions,
+	MiniDatabaseInteractionSessionStoreOptions,
+} from "./core/interactions/InteractionSession.js";
+export type {
+	InteractionContextOptions,
+	InteractionLifecycleHelpers,
+} from "./core/interactions/InteractionContext.js";
+export {
+	InteractionVerificationError,
+	InvalidSignatureError,
+	ReplayedInteractionError,
+	StaleTimestampError,
+	verifyAndParseInteraction,
+} from "./core/interactions/InteractionVerifier.js";
+export { verifyInteractionSignature } from "./core/interactions/Ed25519Verifier.js";
+export type {
+	InteractionVerificationOptions,
+	VerifyInteractionRequest,
+} from "./core/interactions/InteractionVerifier.js";
+export {
+	canInteractionRespond,
+	getInteractionCreatedAt,
+	getInteractionDeadline,
+	INITIAL_RESPONSE_WINDOW_MS,
+	INTERACTION_TOKEN_LIFETIME_MS,
+	InteractionExpiredError,
+} from "./core/interactions/InteractionLifetime.js";
+export type { InteractionResponseState } from "./core/interactions/InteractionLifetime.js";
+export {
+	MemoryInteractionReplayStore,
+	MiniDatabaseInteractionReplayStore,
+} from "./core/interactions/InteractionReplayStore.js";
+export type {
+	InteractionReplayStore,
+	MemoryInteractionReplayStoreOptions,
+	MiniDatabaseInteractionReplayStoreOptions,
+} from "./core/interactions/InteractionReplayStore.js";
+export {
+	createFetchInteractionHandler,
+	handleInteractionRequest,
+} from "./core/interactions/InteractionRequestHandler.js";
+export type {
+	FetchExecutionContext,
+	FetchInteractionHandler,
+	InitialResponseCommitter,
+	InteractionDispatcher,
+	InteractionRequest,
+	InteractionRequestHandlerOptions,
+	InteractionRequestResult,
+} from "./core/interactions/InteractionRequestHandler.js";
+export {
+	toExpressMiddleware,
+	toFastifyPlugin,
+	toHonoHandler,
+	toNextRouteHandler,
+} from "./core/interactions/FrameworkAdapters.js";
+export type {
+	ExpressMiddleware,
+	FastifyInteractionPlugin,
+	FastifyPluginOptions,
+	HonoInteractionHandler,
+	InteractionRequestHandlerSource,
+	NextRouteHandler,
+} from "./core/interactions/FrameworkAdapters.js";
 export { InteractionRouter } from "./router/InteractionRouter.js";
+export type {
+	AutocompleteRouterHandler,
+	CustomIdRouterHandler,
+	RouterHandler,
+} from "./router/InteractionRouter.js";
+export type {
+	MiddlewareNext,
+	MiddlewareResult,
+	RouterMiddleware,
+} from "./router/middleware.js";
+export {
+	cooldown,
+	replyOnCooldown,
+	MemoryCooldownStore,
+	MiniDatabaseCooldownStore,
+} from "./router/cooldown.js";
+export type {
+	CooldownHandler,
+	CooldownMiddlewareOptions,
+	CooldownOptions,
+	CooldownScope,
+	CooldownState,
+	CooldownStore,
+	MemoryCooldownStoreOptions,
+	MiniDatabaseCooldownStoreOptions,
+} from "./router/cooldown.js";
+export {
+	describePreconditionFailure,
+	ownerOnly,
+	preconditions,
+	replyOnPreconditionFailure,
+	requireBotPermissions,
+	requireEntitlement,
+	requireGuild,
+	requireRoles,
+	requireUserPermissions,
+	setDefaultPreconditionFailureHandler,
+} from "./router/preconditions.js";
+export type {
+	Precondition,
+	PreconditionFailure,
+	PreconditionFailureHandler,
+	PreconditionFailureReason,
+	PreconditionsOptions,
+} from "./router/preconditions.js";
+export {
+	createCustomIdCodec,
+	CustomIdCodec,
+	InvalidCustomIdError,
+	MAX_CUSTOM_ID_LENGTH,
+} from "./router/CustomIdCodec.js";
+export type {
+	CustomIdCodecOptions,
+	CustomIdFieldType,
+	CustomIdSchema,
+	CustomIdState,
+} from "./router/CustomIdCodec.js";
+export { CustomIdRouteTable } from "./router/CustomIdRouteTable.js";
+export type {
+	CustomIdMatch,
+	CustomIdParams,
+	CustomIdPattern,
+} from "./router/CustomIdRouteTable.js";
 export {
 	MiniInteraction,
 	LegacyMiniInteractionAdapter,
 } from "./compat/MiniInteraction.js";
 export type { MiniInteractionOptions } from "./compat/MiniInteraction.js";
+export { generateHandlerManifest } from "./compat/HandlerManifest.js";
+export type {
+	GenerateHandlerManifestOptions,
+	HandlerManifest,
+	HandlerManifestEntry,
+} from "./compat/HandlerManifest.js";
 export type { APIRadioComponent, APIRadioOption } from "./types/radio.js";
 export { RADIO_COMPONENT_TYPE } from "./types/radio.js";
 export type { APICheckboxComponent, APICheckboxOption } from "./types/checkbox.js";
@@ -0,0 +1,316 @@
+import type { InteractionContext } from '../core/interactions/InteractionContext.js';
+import { ValidationError } from '../types/validation.js';
+import type { CustomIdParams } from './CustomIdRouteTable.js';
+import type { CustomIdRouterHandler } from './InteractionRouter.js';
+
+/** Discord's limit for component and modal `custom_id` values. */
+export const MAX_CUSTOM_ID_LENGTH = 100;
+
+export type CustomIdFieldType = 'snowflake' | 'int' | 'boolean' | 'string';
+
+export type CustomIdSchema = Record<string, CustomIdFieldType>;
+
+type FieldValue<T extends CustomIdFieldType> = T extends 'int' ? number : T extends 'boolean' ? boolean : string;
+
+/** Payload type described by a schema, e.g. `{ userId: 'snowflake', page: 'int' }` → `{ userId: string; page: number }`. */
+export type CustomIdState<S extends CustomIdSchema> = { [K in keyof S]: FieldValue<S[K]> };
+
+export type CustomIdCodecOptions<S extends CustomIdSchema> = {
+  /** Literal start of every encoded id; routes match on it. Must not be empty. */
+  prefix: string;
+  /** Field names and types, encoded in declaration order. */
+  fields: S;
+  /** Signs encoded ids with HMAC-SHA256 so they cannot be forged or altered. */
+  secret?: string | Uint8Array;
+  /** Bytes of the HMAC kept in the id. Defaults to 8. */
+  signatureBytes?: number;
+};
+
+export class InvalidCustomIdError extends Error {
+  constructor(readonly customId: string, reason: string) {
+    super(`[CustomIdCodec] cannot decode "${customId}": ${reason}`);
+    this.name = 'InvalidCustomIdError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Round-trips typed state through a `custom_id` as `<prefix>:<base64url>`. Values
+ * are packed as varints and length-prefixed strings, so a snowflake costs about
+ * 12 characters, and an optional truncated HMAC rejects forged ids.
+ */
+export class CustomIdCodec<S extends CustomIdSchema> {
+  readonly prefix: string;
+  /** Route pattern for `onComponent`/`onModal`; the encoded state is exposed as `params.state`. */
+  readonly pattern: RegExp;
+  private readonly fieldEntries: Array<[string, CustomIdFieldType]>;
+  private readonly key?: Uint8Array;
+  private readonly signatureBytes: number;
+
+  constructor(options: CustomIdCodecOptions<S>) {
+    if (!options.prefix) {
+      throw new ValidationError('CustomIdCodec', 'prefix', 'must not be empty');
+    }
+    this.prefix = options.prefix;
+    this.pattern = new RegExp(`^${escapeRegExp(options.prefix)}:(?<state>[A-Za-z0-9_-]*)$`);
+    this.fieldEntries = Object.entries(options.fields);
+    this.key = typeof options.secret === 'string' ? encoder.encode(options.secret) : options.secret;
+    this.signatureBytes = this.key ? (options.signatureBytes ?? 8) : 0;
+    if (this.key && (this.signatureBytes < 4 || this.signatureBytes > 32)) {
+      throw new ValidationError('CustomIdCodec', 'signatureBytes', 'expected a value between 4 and 32');
+    }
+  }
+
+  /** @throws ValidationError when a value does not match its field or the id exceeds 100 characters. */
+  encode(state: CustomIdState<S>): string {
+    const bytes: number[] = [];
+    for (const [name, type] of this.fieldEntries) {
+      writeField(bytes, name, type, (state as Record<string, unknown>)[name]);
+    }
+
+    const payload = Uint8Array.from(bytes);
+    const signed = this.key ? concat(payload, this.sign(payload)) : payload;
+    const customId = `${this.prefix}:${toBase64Url(signed)}`;
+    if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+      throw new ValidationError(
+        'CustomIdCodec',
+        'customId',
+        `encoded length ${customId.length} exceeds ${MAX_CUSTOM_ID_LENGTH} characters`,
+      );
+    }
+    return customId;
+  }
+
+  /** @throws InvalidCustomIdError when the id was not produced by this codec or its signature does not match. */
+  decode(customId: string): CustomIdState<S> {
+    const encoded = this.pattern.exec(customId)?.groups?.state;
+    if (encoded === undefined) {
+      throw new InvalidCustomIdError(customId, `expected prefix "${this.prefix}:"`);
+    }
+
+    const signed = fromBase64Url(encoded);
+    if (!signed || signed.length < this.signatureBytes) {
+      throw new InvalidCustomIdError(customId, 'malformed payload');
+    }
+    const payload = signed.subarray(0, signed.length - this.signatureBytes);
+    if (this.key && !constantTimeEqual(signed.subarray(payload.length), this.sign(payload))) {
+      throw new InvalidCustomIdError(customId, 'signature mismatch');
+    }
+
+    const reader = { bytes: payload, offset: 0 };
+    const state: Record<string, unknown> = {};
+    try {
+      for (const [name, type] of this.fieldEntries) {
+        state[name] = readField(reader, type);
+      }
+    } catch {
+      throw new InvalidCustomIdError(customId, 'malformed payload');
+    }
+    if (reader.offset !== payload.length) {
+      throw new InvalidCustomIdError(customId, 'unexpected trailing data');
+    }
+    return state as CustomIdState<S>;
+  }
+
+  tryDecode(customId: string): CustomIdState<S> | undefined {
+    try {
+      return this.decode(customId);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Wraps a handler registered with {@link pattern} so it receives the decoded state
+   * (read from `params.state`, so session-suffixed ids decode too).
+   * Forged or malformed ids reject with `InvalidCustomIdError` before the handler runs.
+   */
+  handler<T>(
+    handler: (interaction: T, ctx: InteractionContext, state: CustomIdState<S>, params: CustomIdParams) => ReturnType<CustomIdRouterHandler<T>>,
+  ): CustomIdRouterHandler<T> {
+    return (interaction, ctx, params) => handler(interaction, ctx, this.decode(`${this.prefix}:${params.state ?? ''}`), params);
+  }
+
+  private sign(payload: Uint8Array): Uint8Array {
+    const prefix = encoder.encode(`${this.prefix}:`);
+    return hmacSha256(this.key as Uint8Array, concat(prefix, payload)).subarray(0, this.signatureBytes);
+  }
+}
+
+export function createCustomIdCodec<S extends CustomIdSchema>(options: CustomIdCodecOptions<S>): CustomIdCodec<S> {
+  return new CustomIdCodec(options);
+}
+
+function writeField(bytes: number[], name: string, type: CustomIdFieldType, value: unknown): void {
+  const invalid = (expected: string) => new ValidationError('CustomIdCodec', name, `expected ${expected}, got ${String(value)}`);
+  switch (type) {
+    case 'snowflake':
+      if (typeof value !== 'string' || !/^\d{1,20}$/.test(value)) throw invalid('a snowflake string');
+      writeVarint(bytes, BigInt(value));
+      return;
+    case 'int':
+      if (typeof value !== 'number' || !Number.isSafeInteger(value)) throw invalid('a safe integer');
+      // Zigzag keeps small negative numbers short.
+      writeVarint(bytes, value >= 0 ? BigInt(value) * 2n : BigInt(-value) * 2n - 1n);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') throw invalid('a boolean');
+      bytes.push(value ? 1 : 0);
+      return;
+    case 'string': {
+      if (typeof value !== 'string') throw invalid('a string');
+      const encoded = encoder.encode(value);
+      writeVarint(bytes, BigInt(encoded.length));
+      bytes.push(...encoded);
+      return;
+    }
+  }
+}
+
+function readField(reader: { bytes: Uint8Array; offset: number }, type: CustomIdFieldType): unknown {
+  switch (type) {
+    case 'snowflake':
+      return readVarint(reader).toString();
+    case 'int': {
+      const zigzag = readVarint(reader);
+      return Number(zigzag & 1n ? -(zigzag + 1n) / 2n : zigzag / 2n);
+    }
+    case 'boolean': {
+      const byte = reader.bytes[reader.offset++];
+      if (byte !== 0 && byte !== 1) throw new Error('invalid boolean');
+      return byte === 1;
+    }
+    case 'string': {
+      const length = Number(readVarint(reader));
+      const end = reader.offset + length;
+      if (end > reader.bytes.length) throw new Error('string out of range');
+      const value = decoder.decode(reader.bytes.subarray(reader.offset, end));
+      reader.offset = end;
+      return value;
+    }
+  }
+}
+
+function writeVarint(bytes: number[], value: bigint): void {
+  do {
+    const byte = Number(value & 0x7fn);
+    value >>= 7n;
+    bytes.push(value > 0n ? byte | 0x80 : byte);
+  } while (value > 0n);
+}
+
+function readVarint(reader: { bytes: Uint8Array; offset: number }): bigint {
+  let value = 0n;
+  for (let shift = 0n; shift < 70n; shift += 7n) {
+    const byte = reader.bytes[reader.offset++];
+    if (byte === undefined) throw new Error('varint out of range');
+    value |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) return value;
+  }
+  throw new Error('varint too long');
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | undefined {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
+
+function concat(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const result = new Uint8Array(left.length + right.length);
+  result.set(left);
+  result.set(right, left.length);
+  return result;
+}
+
+function constantTimeEqual(left: Uint8Array, right: Uint8Array): boolean {
+  if (left.length !== right.length) return false;
+  let diff = 0;
+  for (let index = 0; index < left.length; index += 1) diff |= left[index] ^ right[index];
+  return diff === 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// --- HMAC-SHA256 -------------------------------------------------------------
+// Synchronous so ids can be built inline with `setCustomId`; crypto.subtle is async.
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const inner = block.map((byte) => byte ^ 0x36);
+  const outer = block.map((byte) => byte ^ 0x5c);
+  return sha256(concat(outer, sha256(concat(inner, message))));
+}
+
+function sha256(data: Uint8Array): Uint8Array {
+  const hash = Uint32Array.from([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(padded.length - 4, (data.length * 8) >>> 0);
+
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i += 1) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i += 1) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i += 1) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, index) => {
+      hash[index] = (hash[index] + value) >>> 0;
+    });
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((value, index) => digestView.setUint32(index * 4, value));
+  return digest;
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
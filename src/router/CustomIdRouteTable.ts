@@ -0,0 +1,123 @@
+/** Route key accepted for component and modal handlers. */
+export type CustomIdPattern = string | RegExp | { prefix: string };
+
+/** Parameters extracted from a matched custom_id. */
+export type CustomIdParams = Record<string, string>;
+
+export type CustomIdMatch<T> = {
+  value: T;
+  params: CustomIdParams;
+};
+
+type TemplateRoute<T> = {
+  pattern: string;
+  regex: RegExp;
+  value: T;
+};
+
+const TEMPLATE_PARAM = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Indexes custom_id routes so dispatch never scans every registered handler.
+ *
+ * Patterns are resolved with a fixed precedence: exact strings, then `{param}`
+ * templates (longest literal prefix first), then regular expressions in
+ * registration order, then `{ prefix }` routes (longest prefix first).
+ */
+export class CustomIdRouteTable<T> {
+  private readonly exact = new Map<string, T>();
+  private readonly templates = new Map<string, TemplateRoute<T>[]>();
+  private readonly regexRoutes: Array<{ regex: RegExp; value: T }> = [];
+  private readonly prefixes = new Map<string, T>();
+  private templatePrefixLengths: number[] = [];
+  private prefixLengths: number[] = [];
+
+  set(pattern: CustomIdPattern, value: T): this {
+    if (pattern instanceof RegExp) {
+      this.regexRoutes.push({ regex: pattern, value });
+      return this;
+    }
+
+    if (typeof pattern === 'object') {
+      this.prefixes.set(pattern.prefix, value);
+      this.prefixLengths = insertLength(this.prefixLengths, pattern.prefix.length);
+      return this;
+    }
+
+    const firstParam = pattern.search(TEMPLATE_PARAM);
+    if (firstParam === -1) {
+      this.exact.set(pattern, value);
+      return this;
+    }
+
+    const literalPrefix = pattern.slice(0, firstParam);
+    const routes = this.templates.get(literalPrefix) ?? [];
+    const route = { pattern, regex: compileTemplate(pattern), value };
+    const existing = routes.findIndex((candidate) => candidate.pattern === pattern);
+    if (existing === -1) {
+      routes.push(route);
+    } else {
+      routes[existing] = route;
+    }
+    this.templates.set(literalPrefix, routes);
+    this.templatePrefixLengths = insertLength(this.templatePrefixLengths, literalPrefix.length);
+    return this;
+  }
+
+  match(customId: string): CustomIdMatch<T> | undefined {
+    const exact = this.exact.get(customId);
+    if (exact !== undefined) {
+      return { value: exact, params: {} };
+    }
+
+    for (const length of this.templatePrefixLengths) {
+      if (length > customId.length) continue;
+      const routes = this.templates.get(customId.slice(0, length));
+      for (const route of routes ?? []) {
+        const match = route.regex.exec(customId);
+        if (match) {
+          return { value: route.value, params: { ...match.groups } };
+        }
+      }
+    }
+
+    for (const route of this.regexRoutes) {
+      route.regex.lastIndex = 0;
+      const match = route.regex.exec(customId);
+      if (match) {
+        return { value: route.value, params: { ...match.groups } };
+      }
+    }
+
+    for (const length of this.prefixLengths) {
+      if (length > customId.length) continue;
+      const value = this.prefixes.get(customId.slice(0, length));
+      if (value !== undefined) {
+        return { value, params: {} };
+      }
+    }
+
+    return undefined;
+  }
+}
+
+function compileTemplate(pattern: string): RegExp {
+  let source = '';
+  let lastIndex = 0;
+  for (const match of pattern.matchAll(TEMPLATE_PARAM)) {
+    source += escapeRegExp(pattern.slice(lastIndex, match.index));
+    source += `(?<${match[1]}>[^:]+)`;
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  source += escapeRegExp(pattern.slice(lastIndex));
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function insertLength(lengths: number[], length: number): number[] {
+  if (lengths.includes(length)) return lengths;
+  return [...lengths, length].sort((a, b) => b - a);
+}
@@ -1,42 +1,319 @@
-import type { APIInteraction, APIInteractionResponse, APIMessageComponentInteraction, APIModalSubmitInteraction, APIChatInputApplicationCommandInteraction } from 'discord-api-types/v10';
-import { InteractionType } from 'discord-api-types/v10';
+import type { APIApplicationCommandAutocompleteInteraction, APIApplicationCommandInteraction, APIInteraction, APIInteractionResponse, APIMessageApplicationCommandInteraction, APIMessageComponentInteraction, APIModalSubmitInteraction, APIChatInputApplicationCommandInteraction, APIPrimaryEntryPointCommandInteraction, APIUserApplicationCommandInteraction } from 'discord-api-types/v10';
+import { ApplicationCommandType, InteractionType } from 'discord-api-types/v10';
 import { InteractionContext } from '../core/interactions/InteractionContext.js';
+import { answerStaleSession, parseSessionCustomId } from '../core/interactions/InteractionSession.js';
+import { createAutocompleteInteraction, type AutocompleteInteraction } from '../utils/AutocompleteInteraction.js';
+import { CommandInteractionOptionResolver, createCommandInteraction, type CommandInteraction } from '../utils/CommandInteractionOptions.js';
+import {
+  createAppCommandInteraction,
+  createMessageContextMenuInteraction,
+  createUserContextMenuInteraction,
+  type AppCommandInteraction,
+  type MessageContextMenuInteraction,
+  type UserContextMenuInteraction,
+} from '../utils/ContextMenuInteraction.js';
+import { createMessageComponentInteraction, type MessageComponentInteraction } from '../utils/MessageComponentInteraction.js';
+import { createModalSubmitInteraction, type ModalSubmitInteraction } from '../utils/ModalSubmitInteraction.js';
+import { CustomIdRouteTable, type CustomIdParams, type CustomIdPattern } from './CustomIdRouteTable.js';
+import { composeMiddleware, type MiddlewareResult, type RouterMiddleware } from './middleware.js';
 
-export type RouterHandler<T extends APIInteraction> = (interaction: T, ctx: InteractionContext) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+export type RouterHandler<T> = (interaction: T, ctx: InteractionContext) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+
+export type CustomIdRouterHandler<T> = (interaction: T, ctx: InteractionContext, params: CustomIdParams) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+
+export type AutocompleteRouterHandler = (interaction: AutocompleteInteraction, ctx: InteractionContext) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+
+type Route<H, T extends APIInteraction> = {
+  handler: H;
+  middleware: RouterMiddleware<T>[];
+};
+
+type ResolvedRoute = {
+  middleware: RouterMiddleware[];
+  run: () => MiddlewareResult;
+};
 
 export class InteractionRouter {
-  private readonly commandHandlers = new Map<string, RouterHandler<APIChatInputApplicationCommandInteraction>>();
-  private readonly componentHandlers = new Map<string, RouterHandler<APIMessageComponentInteraction>>();
-  private readonly modalHandlers = new Map<string, RouterHandler<APIModalSubmitInteraction>>();
+  private readonly middleware: RouterMiddleware[] = [];
+  private readonly commandHandlers = new Map<string, Route<RouterHandler<CommandInteraction>, APIChatInputApplicationCommandInteraction>>();
+  private readonly subcommandHandlers = new Map<string, RouterHandler<CommandInteraction>>();
+  private readonly userCommandHandlers = new Map<string, Route<RouterHandler<UserContextMenuInteraction>, APIUserApplicationCommandInteraction>>();
+  private readonly messageCommandHandlers = new Map<string, Route<RouterHandler<MessageContextMenuInteraction>, APIMessageApplicationCommandInteraction>>();
+  private readonly entryPointHandlers = new Map<string, Route<RouterHandler<AppCommandInteraction>, APIPrimaryEntryPointCommandInteraction>>();
+  private readonly componentHandlers = new CustomIdRouteTable<Route<CustomIdRouterHandler<MessageComponentInteraction>, APIMessageComponentInteraction>>();
+  private readonly modalHandlers = new CustomIdRouteTable<Route<CustomIdRouterHandler<ModalSubmitInteraction>, APIModalSubmitInteraction>>();
+  private readonly autocompleteHandlers = new Map<string, Map<string | undefined, AutocompleteRouterHandler>>();
 
-  onCommand(name: string, handler: RouterHandler<APIChatInputApplicationCommandInteraction>): this {
-    this.commandHandlers.set(name, handler);
+  /**
+   * Adds middleware that runs, in registration order, before every dispatched handler.
+   */
+  use(...middleware: RouterMiddleware[]): this {
+    this.middleware.push(...middleware);
     return this;
   }
 
-  onComponent(customId: string, handler: RouterHandler<APIMessageComponentInteraction>): this {
-    this.componentHandlers.set(customId, handler);
+  onCommand(name: string, handler: RouterHandler<CommandInteraction>): this;
+  onCommand(
+    name: string,
+    middleware: RouterMiddleware<APIChatInputApplicationCommandInteraction>[],
+    handler: RouterHandler<CommandInteraction>,
+  ): this;
+  onCommand(
+    name: string,
+    middlewareOrHandler: RouterMiddleware<APIChatInputApplicationCommandInteraction>[] | RouterHandler<CommandInteraction>,
+    maybeHandler?: RouterHandler<CommandInteraction>,
+  ): this {
+    this.commandHandlers.set(name, toRoute(middlewareOrHandler, maybeHandler));
     return this;
   }
 
-  onModal(customId: string, handler: RouterHandler<APIModalSubmitInteraction>): this {
-    this.modalHandlers.set(customId, handler);
+  /**
+   * Registers a user context menu command. Handlers receive the resolved `targetUser`.
+   */
+  onUserCommand(name: string, handler: RouterHandler<UserContextMenuInteraction>): this;
+  onUserCommand(
+    name: string,
+    middleware: RouterMiddleware<APIUserApplicationCommandInteraction>[],
+    handler: RouterHandler<UserContextMenuInteraction>,
+  ): this;
+  onUserCommand(
+    name: string,
+    middlewareOrHandler: RouterMiddleware<APIUserApplicationCommandInteraction>[] | RouterHandler<UserContextMenuInteraction>,
+    maybeHandler?: RouterHandler<UserContextMenuInteraction>,
+  ): this {
+    this.userCommandHandlers.set(name, toRoute(middlewareOrHandler, maybeHandler));
     return this;
   }
 
+  /**
+   * Registers a message context menu command. Handlers receive the resolved `targetMessage`.
+   */
+  onMessageCommand(name: string, handler: RouterHandler<MessageContextMenuInteraction>): this;
+  onMessageCommand(
+    name: string,
+    middleware: RouterMiddleware<APIMessageApplicationCommandInteraction>[],
+    handler: RouterHandler<MessageContextMenuInteraction>,
+  ): this;
+  onMessageCommand(
+    name: string,
+    middlewareOrHandler: RouterMiddleware<APIMessageApplicationCommandInteraction>[] | RouterHandler<MessageContextMenuInteraction>,
+    maybeHandler?: RouterHandler<MessageContextMenuInteraction>,
+  ): this {
+    this.messageCommandHandlers.set(name, toRoute(middlewareOrHandler, maybeHandler));
+    return this;
+  }
+
+  /**
+   * Registers the primary entry point command that launches an Activity.
+   */
+  onEntryPoint(name: string, handler: RouterHandler<AppCommandInteraction>): this;
+  onEntryPoint(
+    name: string,
+    middleware: RouterMiddleware<APIPrimaryEntryPointCommandInteraction>[],
+    handler: RouterHandler<AppCommandInteraction>,
+  ): this;
+  onEntryPoint(
+    name: string,
+    middlewareOrHandler: RouterMiddleware<APIPrimaryEntryPointCommandInteraction>[] | RouterHandler<AppCommandInteraction>,
+    maybeHandler?: RouterHandler<AppCommandInteraction>,
+  ): this {
+    this.entryPointHandlers.set(name, toRoute(middlewareOrHandler, maybeHandler));
+    return this;
+  }
+
+  /**
+   * Registers a handler for one subcommand path, e.g. `("config", "set")` or
+   * `("config", "roles", "add")`. Unmatched paths fall back to the `onCommand` handler.
+   * Middleware registered on the parent command also runs for its subcommands.
+   */
+  onSubcommand(commandName: string, subcommand: string, handler: RouterHandler<CommandInteraction>): this;
+  onSubcommand(commandName: string, group: string, subcommand: string, handler: RouterHandler<CommandInteraction>): this;
+  onSubcommand(
+    commandName: string,
+    ...rest: [string, RouterHandler<CommandInteraction>] | [string, string, RouterHandler<CommandInteraction>]
+  ): this {
+    const handler = rest[rest.length - 1] as RouterHandler<CommandInteraction>;
+    const path = [commandName, ...(rest.slice(0, -1) as string[])];
+    this.subcommandHandlers.set(path.join(' '), handler);
+    return this;
+  }
+
+  /**
+   * Registers a component handler. `customId` may be an exact id, a template such as
+   * `ticket:close:{ticketId}`, a RegExp (named groups become params) or `{ prefix }`.
+   */
+  onComponent(customId: CustomIdPattern, handler: CustomIdRouterHandler<MessageComponentInteraction>): this;
+  onComponent(
+    customId: CustomIdPattern,
+    middleware: RouterMiddleware<APIMessageComponentInteraction>[],
+    handler: CustomIdRouterHandler<MessageComponentInteraction>,
+  ): this;
+  onComponent(
+    customId: CustomIdPattern,
+    middlewareOrHandler: RouterMiddleware<APIMessageComponentInteraction>[] | CustomIdRouterHandler<MessageComponentInteraction>,
+    maybeHandler?: CustomIdRouterHandler<MessageComponentInteraction>,
+  ): this {
+    this.componentHandlers.set(customId, toRoute(middlewareOrHandler, maybeHandler));
+    return this;
+  }
+
+  /**
+   * Registers a modal handler using the same matching rules as {@link onComponent}.
+   */
+  onModal(customId: CustomIdPattern, handler: CustomIdRouterHandler<ModalSubmitInteraction>): this;
+  onModal(
+    customId: CustomIdPattern,
+    middleware: RouterMiddleware<APIModalSubmitInteraction>[],
+    handler: CustomIdRouterHandler<ModalSubmitInteraction>,
+  ): this;
+  onModal(
+    customId: CustomIdPattern,
+    middlewareOrHandler: RouterMiddleware<APIModalSubmitInteraction>[] | CustomIdRouterHandler<ModalSubmitInteraction>,
+    maybeHandler?: CustomIdRouterHandler<ModalSubmitInteraction>,
+  ): this {
+    this.modalHandlers.set(customId, toRoute(middlewareOrHandler, maybeHandler));
+    return this;
+  }
+
+  /**
+   * Registers an autocomplete handler for a command, optionally scoped to one option.
+   * Option-specific handlers take precedence over the command-wide handler.
+   */
+  onAutocomplete(commandName: string, handler: AutocompleteRouterHandler): this;
+  onAutocomplete(commandName: string, optionName: string, handler: AutocompleteRouterHandler): this;
+  onAutocomplete(
+    commandName: string,
+    optionNameOrHandler: string | AutocompleteRouterHandler,
+    maybeHandler?: AutocompleteRouterHandler,
+  ): this {
+    const optionName = typeof optionNameOrHandler === 'string' ? optionNameOrHandler : undefined;
+    const handler = typeof optionNameOrHandler === 'function' ? optionNameOrHandler : maybeHandler;
+    if (!handler) {
+      throw new Error('[InteractionRouter] onAutocomplete requires a handler');
+    }
+
+    let handlers = this.autocompleteHandlers.get(commandName);
+    if (!handlers) {
+      handlers = new Map();
+      this.autocompleteHandlers.set(commandName, handlers);
+    }
+    handlers.set(optionName, handler);
+    return this;
+  }
+
+  /**
+   * Runs middleware and the matching handler, then settles the context's response
+   * lifecycle. Resolves `undefined` when the initial response was already committed.
+   */
   async dispatch(interaction: APIInteraction, ctx: InteractionContext): Promise<APIInteractionResponse | void> {
+    if (ctx.sessionsEnabled) {
+      const stale = await answerStaleSession(interaction, ctx);
+      if (stale) return ctx.resolveResponse(stale);
+    }
+
+    const route = this.resolve(interaction, ctx);
+    const result = await composeMiddleware(
+      [...this.middleware, ...(route?.middleware ?? [])],
+      interaction,
+      ctx,
+      () => route?.run(),
+    );
+    return ctx.resolveResponse(result);
+  }
+
+  private resolve(interaction: APIInteraction, ctx: InteractionContext): ResolvedRoute | undefined {
     if (interaction.type === InteractionType.ApplicationCommand) {
-      const i = interaction as APIChatInputApplicationCommandInteraction;
-      return this.commandHandlers.get(i.data.name)?.(i, ctx);
+      return this.resolveApplicationCommand(interaction, ctx);
+    }
+    if (interaction.type === InteractionType.ApplicationCommandAutocomplete) {
+      const i = createAutocompleteInteraction(interaction as APIApplicationCommandAutocompleteInteraction, ctx.helpers);
+      const handlers = this.autocompleteHandlers.get(i.data.name);
+      if (!handlers) return undefined;
+      const focused = i.options.getFocused();
+      const handler = (focused ? handlers.get(focused.name) : undefined) ?? handlers.get(undefined);
+      if (!handler) return undefined;
+      return { middleware: [], run: () => handler(i, ctx) };
     }
     if (interaction.type === InteractionType.MessageComponent) {
-      const i = interaction as APIMessageComponentInteraction;
-      return this.componentHandlers.get(i.data.custom_id)?.(i, ctx);
+      const match = this.componentHandlers.match(routeCustomId(interaction as APIMessageComponentInteraction, ctx));
+      if (!match) return undefined;
+      const i = createMessageComponentInteraction(interaction as APIMessageComponentInteraction, ctx.helpers);
+      return { middleware: match.value.middleware as RouterMiddleware[], run: () => match.value.handler(i, ctx, match.params) };
     }
     if (interaction.type === InteractionType.ModalSubmit) {
-      const i = interaction as APIModalSubmitInteraction;
-      return this.modalHandlers.get(i.data.custom_id)?.(i, ctx);
+      const match = this.modalHandlers.match(routeCustomId(interaction as APIModalSubmitInteraction, ctx));
+      if (!match) return undefined;
+      const i = createModalSubmitInteraction(interaction as APIModalSubmitInteraction, ctx.helpers);
+      return { middleware: match.value.middleware as RouterMiddleware[], run: () => match.value.handler(i, ctx, match.params) };
     }
     return undefined;
   }
+
+  private resolveApplicationCommand(
+    interaction: APIApplicationCommandInteraction,
+    ctx: InteractionContext,
+  ): ResolvedRoute | undefined {
+    const { name, type } = interaction.data;
+    switch (type) {
+      case ApplicationCommandType.ChatInput: {
+        const raw = interaction as APIChatInputApplicationCommandInteraction;
+        const route = this.commandHandlers.get(name);
+        const handler = this.resolveSubcommandHandler(raw) ?? route?.handler;
+        if (!handler) return undefined;
+        const i = createCommandInteraction(raw, ctx.helpers);
+        return { middleware: (route?.middleware ?? []) as RouterMiddleware[], run: () => handler(i, ctx) };
+      }
+      case ApplicationCommandType.User: {
+        const route = this.userCommandHandlers.get(name);
+        if (!route) return undefined;
+        const i = createUserContextMenuInteraction(interaction as APIUserApplicationCommandInteraction, ctx.helpers);
+        return { middleware: route.middleware as RouterMiddleware[], run: () => route.handler(i, ctx) };
+      }
+      case ApplicationCommandType.Message: {
+        const route = this.messageCommandHandlers.get(name);
+        if (!route) return undefined;
+        const i = createMessageContextMenuInteraction(interaction as APIMessageApplicationCommandInteraction, ctx.helpers);
+        return { middleware: route.middleware as RouterMiddleware[], run: () => route.handler(i, ctx) };
+      }
+      case ApplicationCommandType.PrimaryEntryPoint: {
+        const route = this.entryPointHandlers.get(name);
+        if (!route) return undefined;
+        const i = createAppCommandInteraction(interaction as APIPrimaryEntryPointCommandInteraction, ctx.helpers);
+        return { middleware: route.middleware as RouterMiddleware[], run: () => route.handler(i, ctx) };
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private resolveSubcommandHandler(
+    interaction: APIChatInputApplicationCommandInteraction,
+  ): RouterHandler<CommandInteraction> | undefined {
+    if (this.subcommandHandlers.size === 0) return undefined;
+    const options = new CommandInteractionOptionResolver(interaction.data.options, interaction.data.resolved);
+    const subcommand = options.getSubcommand(false);
+    if (!subcommand) return undefined;
+    const group = options.getSubcommandGroup(false);
+    const path = group ? [interaction.data.name, group, subcommand] : [interaction.data.name, subcommand];
+    return this.subcommandHandlers.get(path.join(' '));
+  }
+}
+
+/** The custom_id routes match on, without an embedded session ID. */
+function routeCustomId(interaction: APIMessageComponentInteraction | APIModalSubmitInteraction, ctx: InteractionContext): string {
+  const customId = interaction.data.custom_id;
+  return ctx.sessionsEnabled ? parseSessionCustomId(customId).customId : customId;
+}
+
+function toRoute<H, T extends APIInteraction>(
+  middlewareOrHandler: RouterMiddleware<T>[] | H,
+  maybeHandler: H | undefined,
+): Route<H, T> {
+  if (Array.isArray(middlewareOrHandler)) {
+    if (!maybeHandler) {
+      throw new Error('[InteractionRouter] route registration requires a handler');
+    }
+    return { handler: maybeHandler, middleware: [...middlewareOrHandler] };
+  }
+  return { handler: middlewareOrHandler, middleware: [] };
 }
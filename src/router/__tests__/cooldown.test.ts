@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType, InteractionType, MessageFlags } from 'discord-api-types/v10';
+import { InteractionRouter } from '../InteractionRouter.js';
+import { cooldown, MemoryCooldownStore, MiniDatabaseCooldownStore } from '../cooldown.js';
+import { InteractionContext } from '../../core/interactions/InteractionContext.js';
+import { DiscordRestClient } from '../../core/http/DiscordRestClient.js';
+
+const rest = new DiscordRestClient({
+  token: 'x',
+  applicationId: 'app',
+  fetchImplementation: (async () => new Response(null, { status: 204 })) as typeof fetch,
+});
+
+const reply = (data: Record<string, unknown>) => ({ type: InteractionResponseType.ChannelMessageWithSource, data });
+
+function command(name: string, userId: string, guildId = 'g1') {
+  return {
+    id: '1',
+    application_id: 'app',
+    type: InteractionType.ApplicationCommand,
+    token: 'tok',
+    version: 1,
+    guild_id: guildId,
+    member: { user: { id: userId } },
+    data: { id: 'c', name, type: 1 },
+  } as any;
+}
+
+test('cooldown allows maxUses per window and scope, then replies ephemerally', async () => {
+  let now = 1_000_000;
+  const store = new MemoryCooldownStore({ now: () => now });
+  const router = new InteractionRouter();
+  router.onCommand('roll', [cooldown({ durationMs: 10_000, maxUses: 2, store })], (_i, ctx) => ctx.reply({ content: 'rolled' }));
+
+  const run = async (userId: string) => {
+    const interaction = command('roll', userId);
+    return router.dispatch(interaction, new InteractionContext({ interaction, rest }));
+  };
+
+  assert.deepEqual(await run('u1'), reply({ content: 'rolled' }));
+  assert.deepEqual(await run('u1'), reply({ content: 'rolled' }));
+  assert.deepEqual(await run('u1'), reply({ content: "You're on cooldown. Try again <t:1010:R>.", flags: MessageFlags.Ephemeral }));
+  assert.deepEqual(await run('u2'), reply({ content: 'rolled' }));
+
+  now += 10_000;
+  assert.deepEqual(await run('u1'), reply({ content: 'rolled' }));
+});
+
+test('guild-scoped cooldowns share a MiniDatabase bucket and use the custom response', async () => {
+  const rows = new Map<string, Record<string, unknown>>();
+  const database = {
+    get: async (key: string) => rows.get(key) ?? null,
+    set: async (key: string, data: Record<string, unknown>) => (rows.set(key, data), true),
+  };
+  const router = new InteractionRouter();
+  router.use(
+    cooldown({
+      scope: 'guild',
+      durationMs: 60_000,
+      store: new MiniDatabaseCooldownStore(database, { now: () => 0 }),
+      onCooldown: (_i, ctx, state) => ctx.reply({ content: `wait ${state.resetAt}`, flags: MessageFlags.Ephemeral }),
+    }),
+  );
+  router.onCommand('sync', (_i, ctx) => ctx.reply({ content: 'synced' }));
+
+  const first = command('sync', 'u1');
+  const second = command('sync', 'u2');
+  assert.deepEqual(await router.dispatch(first, new InteractionContext({ interaction: first, rest })), reply({ content: 'synced' }));
+  assert.deepEqual(
+    await router.dispatch(second, new InteractionContext({ interaction: second, rest })),
+    reply({ content: 'wait 60000', flags: MessageFlags.Ephemeral }),
+  );
+  assert.deepEqual([...rows.keys()], ['cooldown:command:sync:guild:g1']);
+});
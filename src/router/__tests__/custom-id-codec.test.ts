@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { InteractionResponseType, InteractionType } from 'discord-api-types/v10';
+import { CustomIdCodec, InvalidCustomIdError } from '../CustomIdCodec.js';
+import { InteractionRouter } from '../InteractionRouter.js';
+import { InteractionContext } from '../../core/interactions/InteractionContext.js';
+import { DiscordRestClient } from '../../core/http/DiscordRestClient.js';
+import { ValidationError } from '../../types/validation.js';
+
+const fields = { userId: 'snowflake', page: 'int', action: 'string', confirm: 'boolean' } as const;
+const state = { userId: '123456789012345678', page: -3, action: 'next', confirm: true };
+
+test('codec round-trips typed state into a compact custom_id', () => {
+  const codec = new CustomIdCodec({ prefix: 'pager', fields });
+  const customId = codec.encode(state);
+
+  assert.match(customId, /^pager:[A-Za-z0-9_-]+$/);
+  assert.ok(customId.length <= 30, customId);
+  assert.deepEqual(codec.decode(customId), state);
+  assert.throws(() => codec.decode('other:AAAA'), InvalidCustomIdError);
+  assert.throws(() => codec.encode({ ...state, page: 1.5 }), ValidationError);
+});
+
+test('signed ids carry a truncated HMAC-SHA256 and reject tampering', () => {
+  const codec = new CustomIdCodec({ prefix: 'pager', fields, secret: 'shh' });
+  const unsigned = new CustomIdCodec({ prefix: 'pager', fields }).encode(state);
+  const payload = Buffer.from(unsigned.slice('pager:'.length), 'base64url');
+  const mac = createHmac('sha256', 'shh').update(Buffer.concat([Buffer.from('pager:'), payload])).digest().subarray(0, 8);
+
+  const customId = codec.encode(state);
+  assert.equal(customId, `pager:${Buffer.concat([payload, mac]).toString('base64url')}`);
+  assert.deepEqual(codec.decode(customId), state);
+
+  const forged = new CustomIdCodec({ prefix: 'pager', fields, secret: 'guess' }).encode({ ...state, userId: '1' });
+  assert.throws(() => codec.decode(forged), /signature mismatch/);
+  assert.equal(codec.tryDecode(unsigned), undefined);
+});
+
+test('encoding beyond 100 characters throws a ValidationError', () => {
+  const codec = new CustomIdCodec({ prefix: 'note', fields: { text: 'string' } });
+  assert.throws(() => codec.encode({ text: 'x'.repeat(80) }), (error: unknown) => {
+    assert.ok(error instanceof ValidationError);
+    assert.equal(error.field, 'customId');
+    return true;
+  });
+});
+
+test('codec handlers decode state on dispatch', async () => {
+  const codec = new CustomIdCodec({ prefix: 'vote', fields: { pollId: 'snowflake', option: 'int' }, secret: 'shh' });
+  const router = new InteractionRouter();
+  router.onComponent(
+    codec.pattern,
+    codec.handler((_interaction, ctx, { pollId, option }) => ctx.reply({ content: `${pollId}:${option}` })),
+  );
+
+  const interaction = {
+    id: '1',
+    application_id: 'app',
+    type: InteractionType.MessageComponent,
+    token: 'tok',
+    version: 1,
+    data: { custom_id: codec.encode({ pollId: '42', option: 7 }), component_type: 2 },
+  } as any;
+  const rest = new DiscordRestClient({ token: 'x', applicationId: 'app' });
+  assert.deepEqual(await router.dispatch(interaction, new InteractionContext({ interaction, rest })), {
+    type: InteractionResponseType.ChannelMessageWithSource,
+    data: { content: '42:7' },
+  });
+});
@@ -0,0 +1,194 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { ApplicationCommandOptionType, InteractionResponseType, InteractionType } from 'discord-api-types/v10';
+import { InteractionRouter } from '../InteractionRouter.js';
+import { InteractionContext } from '../../core/interactions/InteractionContext.js';
+import { DiscordRestClient } from '../../core/http/DiscordRestClient.js';
+
+const rest = new DiscordRestClient({
+  token: 'x',
+  applicationId: 'app',
+  fetchImplementation: (async () => new Response(null, { status: 204 })) as typeof fetch,
+});
+
+function createAutocomplete(options: unknown[]) {
+  return {
+    id: '1',
+    application_id: 'app',
+    type: InteractionType.ApplicationCommandAutocomplete,
+    token: 'tok',
+    version: 1,
+    data: { id: 'cmd', name: 'search', type: 1, options },
+  } as any;
+}
+
+test('autocomplete prefers option-specific handlers and exposes the focused option', async () => {
+  const router = new InteractionRouter();
+  router.onAutocomplete('search', () => ({ type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices: [] } }));
+  router.onAutocomplete('search', 'query', (interaction) => {
+    const focused = interaction.getFocusedOption();
+    assert.deepEqual(focused, {
+      name: 'query',
+      type: ApplicationCommandOptionType.String,
+      value: 'ap',
+      subcommandGroup: null,
+      subcommand: 'items',
+    });
+    return interaction.respond([{ name: 'apple', value: 'apple' }]);
+  });
+
+  const interaction = createAutocomplete([
+    {
+      type: ApplicationCommandOptionType.Subcommand,
+      name: 'items',
+      options: [{ type: ApplicationCommandOptionType.String, name: 'query', value: 'ap', focused: true }],
+    },
+  ]);
+  const response = await router.dispatch(interaction, new InteractionContext({ interaction, rest }));
+  assert.deepEqual(response, {
+    type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+    data: { choices: [{ name: 'apple', value: 'apple' }] },
+  });
+});
+
+test('autocomplete respond enforces Discord choice limits', async () => {
+  const router = new InteractionRouter();
+  router.onAutocomplete('search', (interaction) => {
+    assert.throws(
+      () => interaction.respond(Array.from({ length: 26 }, (_, index) => ({ name: `n${index}`, value: index }))),
+      /at most 25 choices/,
+    );
+    assert.throws(() => interaction.respond([{ name: 'x', value: 'y'.repeat(101) }]), /at most 100 characters/);
+    return interaction.respond([]);
+  });
+
+  const interaction = createAutocomplete([{ type: ApplicationCommandOptionType.Integer, name: 'count', value: '4', focused: true }]);
+  const response = await router.dispatch(interaction, new InteractionContext({ interaction, rest }));
+  assert.equal(response?.type, InteractionResponseType.ApplicationCommandAutocompleteResult);
+});
+
+test('component routes resolve exact > template > regex > prefix and pass params', async () => {
+  const router = new InteractionRouter();
+  const hits: Array<[string, Record<string, string>]> = [];
+  router
+    .onComponent({ prefix: 'ticket:' }, (_i, _ctx, params) => void hits.push(['prefix', params]))
+    .onComponent(/^ticket:(?<action>\w+):raw$/, (_i, _ctx, params) => void hits.push(['regex', params]))
+    .onComponent('ticket:close:{ticketId}', (_i, _ctx, params) => void hits.push(['template', params]))
+    .onComponent('ticket:close:all', (_i, _ctx, params) => void hits.push(['exact', params]));
+
+  for (const customId of ['ticket:close:all', 'ticket:close:123', 'ticket:open:raw', 'ticket:other']) {
+    const interaction = { id: '1', application_id: 'app', type: InteractionType.MessageComponent, token: 'tok', version: 1, data: { custom_id: customId, component_type: 2 } } as any;
+    await router.dispatch(interaction, new InteractionContext({ interaction, rest }));
+  }
+
+  assert.deepEqual(hits, [
+    ['exact', {}],
+    ['template', { ticketId: '123' }],
+    ['regex', { action: 'open' }],
+    ['prefix', {}],
+  ]);
+});
+
+test('subcommand routes resolve groups and fall back to the parent command', async () => {
+  const router = new InteractionRouter();
+  const hits: string[] = [];
+  router
+    .onCommand('config', () => void hits.push('parent'))
+    .onSubcommand('config', 'set', () => void hits.push('set'))
+    .onSubcommand('config', 'roles', 'add', () => void hits.push('roles add'));
+
+  const payloads = [
+    [{ type: ApplicationCommandOptionType.Subcommand, name: 'set', options: [] }],
+    [{ type: ApplicationCommandOptionType.SubcommandGroup, name: 'roles', options: [{ type: ApplicationCommandOptionType.Subcommand, name: 'add', options: [] }] }],
+    [{ type: ApplicationCommandOptionType.Subcommand, name: 'reset', options: [] }],
+  ];
+  for (const options of payloads) {
+    const interaction = { id: '1', application_id: 'app', type: InteractionType.ApplicationCommand, token: 'tok', version: 1, data: { id: 'c', name: 'config', type: 1, options } } as any;
+    await router.dispatch(interaction, new InteractionContext({ interaction, rest }));
+  }
+
+  assert.deepEqual(hits, ['set', 'roles add', 'parent']);
+});
+
+test('middleware runs in order around handlers and can short-circuit', async () => {
+  const router = new InteractionRouter();
+  const order: string[] = [];
+  router.use(async (_i, _ctx, next) => {
+    order.push('global:before');
+    const result = await next();
+    order.push('global:after');
+    return result;
+  });
+  router.onCommand(
+    'admin',
+    [(_i, ctx) => ctx.reply({ content: 'denied', flags: 64 })],
+    () => void order.push('handler'),
+  );
+  router.onCommand('ping', [(_i, _ctx, next) => (order.push('route'), next())], (_i, ctx) => {
+    order.push('handler');
+    return ctx.reply({ content: 'pong' });
+  });
+
+  const command = (name: string) => ({ id: '1', application_id: 'app', type: InteractionType.ApplicationCommand, token: 'tok', version: 1, data: { id: 'c', name, type: 1 } }) as any;
+
+  const denied = await router.dispatch(command('admin'), new InteractionContext({ interaction: command('admin'), rest }));
+  assert.deepEqual(denied, { type: 4, data: { content: 'denied', flags: 64 } });
+  assert.deepEqual(order, ['global:before', 'global:after']);
+
+  order.length = 0;
+  const pong = await router.dispatch(command('ping'), new InteractionContext({ interaction: command('ping'), rest }));
+  assert.equal(pong?.type, 4);
+  assert.deepEqual(order, ['global:before', 'route', 'handler', 'global:after']);
+});
+
+test('context menu commands are keyed by type and receive resolved targets', async () => {
+  const router = new InteractionRouter();
+  const hits: string[] = [];
+  router
+    .onCommand('inspect', () => void hits.push('slash'))
+    .onUserCommand('inspect', (interaction) => void hits.push(`user:${interaction.targetUser?.username}`))
+    .onMessageCommand('inspect', (interaction) => void hits.push(`message:${interaction.targetMessage?.content}`));
+
+  const base = { id: '1', application_id: 'app', type: InteractionType.ApplicationCommand, token: 'tok', version: 1 };
+  const payloads = [
+    { ...base, data: { id: 'c', name: 'inspect', type: 1 } },
+    { ...base, data: { id: 'c', name: 'inspect', type: 2, target_id: 'u1', resolved: { users: { u1: { id: 'u1', username: 'mina' } } } } },
+    { ...base, data: { id: 'c', name: 'inspect', type: 3, target_id: 'm1', resolved: { messages: { m1: { id: 'm1', content: 'hi' } } } } },
+  ] as any[];
+  for (const interaction of payloads) {
+    await router.dispatch(interaction, new InteractionContext({ interaction, rest }));
+  }
+
+  assert.deepEqual(hits, ['slash', 'user:mina', 'message:hi']);
+});
+
+test('handlers receive helper interactions that share the context lifecycle', async () => {
+  const calls: string[] = [];
+  const trackingRest = new DiscordRestClient({
+    token: 'x',
+    applicationId: 'app',
+    fetchImplementation: (async (input: string | URL | Request, init?: RequestInit) => {
+      calls.push(`${init?.method} ${new URL(String(input)).pathname}`);
+      return new Response(JSON.stringify({ id: 'm1', channel_id: 'c1' }), { status: 200 });
+    }) as typeof fetch,
+  });
+  const router = new InteractionRouter();
+  router.onCommand('slow', async (interaction) => {
+    assert.equal(typeof interaction.withTimeoutProtection, 'function');
+    interaction.deferReply();
+    await interaction.editReply({ content: 'done' });
+  });
+
+  const id = String((BigInt(Date.now()) - 1420070400000n) << 22n);
+  const interaction = { id, application_id: 'app', type: InteractionType.ApplicationCommand, token: 'tok', version: 1, data: { id: 'c', name: 'slow', type: 1 } } as any;
+  const committed: unknown[] = [];
+  const ctx = new InteractionContext({
+    interaction,
+    rest: trackingRest,
+    commitInitialResponse: (response) => (committed.push(response), true),
+  });
+
+  assert.equal(await router.dispatch(interaction, ctx), undefined);
+  assert.deepEqual(committed, [{ type: InteractionResponseType.DeferredChannelMessageWithSource }]);
+  assert.deepEqual(calls, ['PATCH /api/v10/webhooks/app/tok/messages/@original']);
+});
@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType, InteractionType, MessageFlags, PermissionFlagsBits } from 'discord-api-types/v10';
+import { InteractionRouter } from '../InteractionRouter.js';
+import {
+  ownerOnly,
+  preconditions,
+  requireBotPermissions,
+  requireEntitlement,
+  requireGuild,
+  requireRoles,
+  requireUserPermissions,
+  setDefaultPreconditionFailureHandler,
+  type PreconditionFailure,
+} from '../preconditions.js';
+import { InteractionContext } from '../../core/interactions/InteractionContext.js';
+import { DiscordRestClient } from '../../core/http/DiscordRestClient.js';
+
+const rest = new DiscordRestClient({
+  token: 'x',
+  applicationId: 'app',
+  fetchImplementation: (async () => new Response(null, { status: 204 })) as typeof fetch,
+});
+
+const base = { id: '1', application_id: 'app', type: InteractionType.ApplicationCommand, token: 'tok', version: 1, data: { id: 'c', name: 'admin', type: 1 } };
+const member = (permissions: bigint, roles: string[] = []) => ({ user: { id: 'u1' }, permissions: String(permissions), roles });
+
+async function check(precondition: Parameters<typeof preconditions>[0][number], interaction: any) {
+  return precondition(interaction, new InteractionContext({ interaction, rest }));
+}
+
+test('built-in preconditions report typed failure reasons', async () => {
+  const dm = { ...base, user: { id: 'u1' }, app_permissions: '0' };
+  const guild = { ...base, guild_id: 'g1', member: member(PermissionFlagsBits.SendMessages, ['r1']), app_permissions: String(PermissionFlagsBits.SendMessages) };
+
+  assert.deepEqual(await check(requireGuild, dm), { reason: 'guildOnly' });
+  assert.equal(await check(requireGuild, guild), undefined);
+  assert.deepEqual(await check(requireUserPermissions(PermissionFlagsBits.ManageGuild, PermissionFlagsBits.SendMessages), guild), {
+    reason: 'missingUserPermissions',
+    missing: PermissionFlagsBits.ManageGuild,
+  });
+  assert.deepEqual(await check(requireBotPermissions(PermissionFlagsBits.EmbedLinks), guild), {
+    reason: 'missingBotPermissions',
+    missing: PermissionFlagsBits.EmbedLinks,
+  });
+  assert.deepEqual(await check(requireRoles('r1', 'r2'), guild), { reason: 'missingRoles', roleIds: ['r2'] });
+  assert.equal(await check(ownerOnly('u1'), dm), undefined);
+  assert.deepEqual(await check(ownerOnly('u2'), guild), { reason: 'ownerOnly' });
+  assert.deepEqual(await check(requireEntitlement('sku'), { ...dm, entitlements: [] }), { reason: 'missingEntitlement', skuId: 'sku' });
+  assert.equal(await check(requireEntitlement('sku'), { ...dm, entitlements: [{ sku_id: 'sku' }] }), undefined);
+});
+
+test('failed preconditions short-circuit with an ephemeral denial that can be replaced globally', async () => {
+  const router = new InteractionRouter();
+  let ran = false;
+  router.onCommand('admin', [preconditions([requireGuild, requireUserPermissions(PermissionFlagsBits.ManageGuild)])], () => {
+    ran = true;
+  });
+
+  const interaction = { ...base, guild_id: 'g1', member: member(0n) } as any;
+  assert.deepEqual(await router.dispatch(interaction, new InteractionContext({ interaction, rest })), {
+    type: InteractionResponseType.ChannelMessageWithSource,
+    data: { content: 'You need the following permissions: ManageGuild.', flags: MessageFlags.Ephemeral },
+  });
+
+  const failures: PreconditionFailure[] = [];
+  setDefaultPreconditionFailureHandler((_i, ctx, failure) => {
+    failures.push(failure);
+    return ctx.reply({ content: 'nope', flags: MessageFlags.Ephemeral });
+  });
+  try {
+    assert.deepEqual(await router.dispatch(interaction, new InteractionContext({ interaction, rest })), {
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'nope', flags: MessageFlags.Ephemeral },
+    });
+  } finally {
+    setDefaultPreconditionFailureHandler();
+  }
+
+  assert.deepEqual(failures, [{ reason: 'missingUserPermissions', missing: PermissionFlagsBits.ManageGuild }]);
+  assert.equal(ran, false);
+});
@@ -0,0 +1,188 @@
+import { InteractionType, MessageFlags, type APIInteraction } from 'discord-api-types/v10';
+import type { InteractionContext } from '../core/interactions/InteractionContext.js';
+import type { MiniDatabase } from '../database/MiniDatabase.js';
+import type { MiddlewareResult, RouterMiddleware } from './middleware.js';
+
+export type CooldownScope = 'user' | 'guild' | 'channel' | 'global';
+
+export type CooldownOptions = {
+  /** Who shares a bucket. Defaults to `user`; `guild` and `channel` fall back to the user in DMs. */
+  scope?: CooldownScope;
+  durationMs: number;
+  /** Uses allowed per window. Defaults to 1. */
+  maxUses?: number;
+};
+
+export type CooldownState = {
+  /** Bucket key, e.g. `command:ping:user:123`. */
+  key: string;
+  /** Remaining uses in the current window after this one. */
+  remaining: number;
+  /** When the current window ends, in milliseconds since the epoch. */
+  resetAt: number;
+};
+
+export type CooldownHandler = (interaction: APIInteraction, ctx: InteractionContext, state: CooldownState) => MiddlewareResult;
+
+/** Fixed-window use counters keyed by bucket. */
+export interface CooldownStore {
+  /**
+   * Records one use of `key`. `remaining` is `-1` when the bucket was already
+   * exhausted; the use is then not counted.
+   */
+  consume(key: string, durationMs: number, maxUses: number): CooldownState | Promise<CooldownState>;
+}
+
+export type CooldownMiddlewareOptions = CooldownOptions & {
+  /** Defaults to a store owned by this middleware. */
+  store?: CooldownStore;
+  /**
+   * Bucket name shared by the routes using it. Defaults to the command name or
+   * `custom_id`, so a global `use(cooldown(...))` limits each route separately.
+   */
+  bucket?: string;
+  /** Answers throttled interactions. Defaults to an ephemeral "try again" reply. */
+  onCooldown?: CooldownHandler;
+};
+
+type CooldownBucket = { uses: number; resetAt: number };
+
+export type MemoryCooldownStoreOptions = {
+  /** Expired buckets are swept once this many are tracked. Defaults to 10 000. */
+  maxEntries?: number;
+  now?: () => number;
+};
+
+/** In-process buckets. Serverless instances do not share them; use {@link MiniDatabaseCooldownStore} there. */
+export class MemoryCooldownStore implements CooldownStore {
+  private readonly buckets = new Map<string, CooldownBucket>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: MemoryCooldownStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  consume(key: string, durationMs: number, maxUses: number): CooldownState {
+    const now = this.now();
+    const current = activeBucket(this.buckets.get(key), now, durationMs);
+    if (current.uses >= maxUses) {
+      return { key, remaining: -1, resetAt: current.resetAt };
+    }
+
+    const bucket = { uses: current.uses + 1, resetAt: current.resetAt };
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > this.maxEntries) {
+      for (const [candidate, { resetAt }] of this.buckets) {
+        if (resetAt <= now) this.buckets.delete(candidate);
+      }
+    }
+    return { key, remaining: maxUses - bucket.uses, resetAt: bucket.resetAt };
+  }
+}
+
+export type MiniDatabaseCooldownStoreOptions = {
+  /** Key prefix for stored buckets. Defaults to `cooldown:`. */
+  keyPrefix?: string;
+  now?: () => number;
+};
+
+/**
+ * Shares buckets across instances through `MiniDatabase`. The read-then-write is
+ * not atomic, so concurrent uses on different instances may both be let through.
+ */
+export class MiniDatabaseCooldownStore implements CooldownStore {
+  private readonly keyPrefix: string;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly database: Pick<MiniDatabase, 'get' | 'set'>,
+    options: MiniDatabaseCooldownStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'cooldown:';
+    this.now = options.now ?? Date.now;
+  }
+
+  async consume(key: string, durationMs: number, maxUses: number): Promise<CooldownState> {
+    const storageKey = `${this.keyPrefix}${key}`;
+    const now = this.now();
+    const stored = await this.database.get(storageKey);
+    const current = activeBucket(
+      typeof stored?.uses === 'number' && typeof stored.resetAt === 'number'
+        ? { uses: stored.uses, resetAt: stored.resetAt }
+        : undefined,
+      now,
+      durationMs,
+    );
+    if (current.uses >= maxUses) {
+      return { key, remaining: -1, resetAt: current.resetAt };
+    }
+
+    const bucket = { uses: current.uses + 1, resetAt: current.resetAt };
+    await this.database.set(storageKey, bucket);
+    return { key, remaining: maxUses - bucket.uses, resetAt: bucket.resetAt };
+  }
+}
+
+/**
+ * Limits how often a route runs per user, guild, channel or globally. Throttled
+ * interactions are answered by `onCooldown` and never reach the handler.
+ * Autocomplete requests pass through uncounted.
+ */
+export function cooldown(options: CooldownMiddlewareOptions): RouterMiddleware {
+  const { durationMs, maxUses = 1, scope = 'user', store = new MemoryCooldownStore(), onCooldown = replyOnCooldown } = options;
+  if (!(durationMs > 0) || !(maxUses >= 1)) {
+    throw new Error('[InteractionRouter] cooldown requires a positive durationMs and maxUses');
+  }
+
+  return async (interaction, ctx, next) => {
+    if (interaction.type === InteractionType.ApplicationCommandAutocomplete) {
+      return next();
+    }
+
+    const bucket = options.bucket ?? getRouteBucket(interaction);
+    const key = `${bucket}:${scope}:${getScopeId(interaction, scope)}`;
+    const state = await store.consume(key, durationMs, maxUses);
+    return state.remaining < 0 ? onCooldown(interaction, ctx, state) : next();
+  };
+}
+
+/** The default cooldown response: an ephemeral reply with a relative timestamp. */
+export function replyOnCooldown(_interaction: APIInteraction, ctx: InteractionContext, state: CooldownState) {
+  return ctx.reply({
+    content: `You're on cooldown. Try again <t:${Math.ceil(state.resetAt / 1000)}:R>.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/** Returns the bucket for the current window, starting a fresh one when the previous window ended. */
+function activeBucket(bucket: CooldownBucket | undefined, now: number, durationMs: number): CooldownBucket {
+  return bucket && bucket.resetAt > now ? bucket : { uses: 0, resetAt: now + durationMs };
+}
+
+function getRouteBucket(interaction: APIInteraction): string {
+  switch (interaction.type) {
+    case InteractionType.ApplicationCommand:
+      return `command:${interaction.data.name}`;
+    case InteractionType.MessageComponent:
+    case InteractionType.ModalSubmit:
+      return `custom_id:${interaction.data.custom_id}`;
+    default:
+      return `type:${interaction.type}`;
+  }
+}
+
+function getScopeId(interaction: APIInteraction, scope: CooldownScope): string {
+  const userId = interaction.member?.user.id ?? interaction.user?.id ?? 'unknown';
+  switch (scope) {
+    case 'global':
+      return 'global';
+    case 'guild':
+      return interaction.guild_id ?? userId;
+    case 'channel':
+      return interaction.channel?.id ?? interaction.channel_id ?? userId;
+    default:
+      return userId;
+  }
+}
@@ -0,0 +1,38 @@
+import type { APIInteraction, APIInteractionResponse } from 'discord-api-types/v10';
+import type { InteractionContext } from '../core/interactions/InteractionContext.js';
+
+export type MiddlewareResult = Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+
+export type MiddlewareNext = () => Promise<APIInteractionResponse | void>;
+
+/**
+ * Koa-style middleware run around router handlers. Returning a response without
+ * calling `next()` short-circuits the remaining middleware and the handler.
+ */
+export type RouterMiddleware<T extends APIInteraction = APIInteraction> = (
+  interaction: T,
+  ctx: InteractionContext,
+  next: MiddlewareNext,
+) => MiddlewareResult;
+
+export function composeMiddleware<T extends APIInteraction>(
+  middleware: ReadonlyArray<RouterMiddleware<T>>,
+  interaction: T,
+  ctx: InteractionContext,
+  handler: () => MiddlewareResult,
+): Promise<APIInteractionResponse | void> {
+  let lastIndex = -1;
+
+  const run = async (index: number): Promise<APIInteractionResponse | void> => {
+    if (index <= lastIndex) {
+      throw new Error('[InteractionRouter] next() called multiple times');
+    }
+    lastIndex = index;
+
+    const current = middleware[index];
+    if (!current) return handler();
+    return current(interaction, ctx, () => run(index + 1));
+  };
+
+  return run(0);
+}
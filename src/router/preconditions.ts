@@ -0,0 +1,142 @@
+import { InteractionType, MessageFlags, PermissionFlagsBits, type APIInteraction } from 'discord-api-types/v10';
+import type { InteractionContext } from '../core/interactions/InteractionContext.js';
+import type { MiddlewareResult, RouterMiddleware } from './middleware.js';
+
+/** Why a precondition rejected an interaction. Switch on `reason` to customise the denial. */
+export type PreconditionFailure =
+  | { reason: 'guildOnly' }
+  | { reason: 'missingUserPermissions'; missing: bigint }
+  | { reason: 'missingBotPermissions'; missing: bigint }
+  | { reason: 'missingRoles'; roleIds: string[] }
+  | { reason: 'ownerOnly' }
+  | { reason: 'missingEntitlement'; skuId: string };
+
+export type PreconditionFailureReason = PreconditionFailure['reason'];
+
+/** Resolves `undefined` when the interaction may proceed. */
+export type Precondition = (
+  interaction: APIInteraction,
+  ctx: InteractionContext,
+) => PreconditionFailure | undefined | Promise<PreconditionFailure | undefined>;
+
+export type PreconditionFailureHandler = (
+  interaction: APIInteraction,
+  ctx: InteractionContext,
+  failure: PreconditionFailure,
+) => MiddlewareResult;
+
+export type PreconditionsOptions = {
+  /** Overrides the default handler set with {@link setDefaultPreconditionFailureHandler}. */
+  onFailure?: PreconditionFailureHandler;
+};
+
+let defaultFailureHandler: PreconditionFailureHandler = replyOnPreconditionFailure;
+
+/** Replaces the denial used by every `preconditions()` middleware without its own `onFailure`. */
+export function setDefaultPreconditionFailureHandler(handler: PreconditionFailureHandler = replyOnPreconditionFailure): void {
+  defaultFailureHandler = handler;
+}
+
+/**
+ * Runs `checks` in order before the route; the first failure is answered by
+ * `onFailure` and the handler never runs. Autocomplete requests pass through.
+ */
+export function preconditions(checks: Precondition[], options: PreconditionsOptions = {}): RouterMiddleware {
+  return async (interaction, ctx, next) => {
+    if (interaction.type === InteractionType.ApplicationCommandAutocomplete) {
+      return next();
+    }
+
+    for (const check of checks) {
+      const failure = await check(interaction, ctx);
+      if (failure) {
+        return (options.onFailure ?? defaultFailureHandler)(interaction, ctx, failure);
+      }
+    }
+    return next();
+  };
+}
+
+export const requireGuild: Precondition = (interaction) => (interaction.guild_id ? undefined : { reason: 'guildOnly' });
+
+/** Requires the invoking member to hold every permission in `permissions` (e.g. `MiniPermFlags.ManageGuild`). */
+export function requireUserPermissions(...permissions: bigint[]): Precondition {
+  const required = combine(permissions);
+  return (interaction) => {
+    if (!interaction.member) return { reason: 'guildOnly' };
+    const missing = required & ~BigInt(interaction.member.permissions);
+    return missing ? { reason: 'missingUserPermissions', missing } : undefined;
+  };
+}
+
+/** Requires the bot to hold `permissions` in the channel, as reported by `app_permissions`. */
+export function requireBotPermissions(...permissions: bigint[]): Precondition {
+  const required = combine(permissions);
+  return (interaction) => {
+    const missing = required & ~BigInt(interaction.app_permissions ?? 0);
+    return missing ? { reason: 'missingBotPermissions', missing } : undefined;
+  };
+}
+
+/** Requires the invoking member to have every role in `roleIds`. */
+export function requireRoles(...roleIds: string[]): Precondition {
+  return (interaction) => {
+    if (!interaction.member) return { reason: 'guildOnly' };
+    const roles = new Set(interaction.member.roles);
+    const missing = roleIds.filter((roleId) => !roles.has(roleId));
+    return missing.length > 0 ? { reason: 'missingRoles', roleIds: missing } : undefined;
+  };
+}
+
+export function ownerOnly(...ownerIds: string[]): Precondition {
+  const owners = new Set(ownerIds);
+  return (interaction) => (owners.has(getUserId(interaction) ?? '') ? undefined : { reason: 'ownerOnly' });
+}
+
+/** Requires an active entitlement to `skuId` among the interaction's `entitlements`. */
+export function requireEntitlement(skuId: string): Precondition {
+  return (interaction) =>
+    interaction.entitlements?.some((entitlement) => entitlement.sku_id === skuId)
+      ? undefined
+      : { reason: 'missingEntitlement', skuId };
+}
+
+/** The default denial: an ephemeral reply built from {@link describePreconditionFailure}. */
+export function replyOnPreconditionFailure(_interaction: APIInteraction, ctx: InteractionContext, failure: PreconditionFailure) {
+  return ctx.reply({ content: describePreconditionFailure(failure), flags: MessageFlags.Ephemeral });
+}
+
+export function describePreconditionFailure(failure: PreconditionFailure): string {
+  switch (failure.reason) {
+    case 'guildOnly':
+      return 'This can only be used in a server.';
+    case 'missingUserPermissions':
+      return `You need the following permissions: ${formatPermissions(failure.missing)}.`;
+    case 'missingBotPermissions':
+      return `I need the following permissions: ${formatPermissions(failure.missing)}.`;
+    case 'missingRoles':
+      return `You need the following roles: ${failure.roleIds.map((roleId) => `<@&${roleId}>`).join(', ')}.`;
+    case 'ownerOnly':
+      return 'Only the bot owner can use this.';
+    case 'missingEntitlement':
+      return 'This requires a premium subscription.';
+  }
+}
+
+function formatPermissions(bits: bigint): string {
+  return (
+    Object.entries(PermissionFlagsBits)
+      // The deprecated alias shares its bit with ManageGuildExpressions.
+      .filter(([name, bit]) => name !== 'ManageEmojisAndStickers' && (bits & bit) === bit)
+      .map(([name]) => name)
+      .join(', ')
+  );
+}
+
+function combine(permissions: bigint[]): bigint {
+  return permissions.reduce((all, permission) => all | permission, 0n);
+}
+
+function getUserId(interaction: APIInteraction): string | undefined {
+  return interaction.member?.user.id ?? interaction.user?.id;
+}
@@ -22,7 +22,11 @@ import type {
     CheckboxInteraction
 } from "../utils/MessageComponentInteraction.js";
 import type { ModalSubmitInteraction } from "../utils/ModalSubmitInteraction.js";
+import type { AutocompleteInteraction } from "../utils/AutocompleteInteraction.js";
 import type { JSONEncodable } from "../builders/shared.js";
+import type { CustomIdParams, CustomIdPattern } from "../router/CustomIdRouteTable.js";
+import type { CooldownOptions } from "../router/cooldown.js";
+import type { Precondition } from "../router/preconditions.js";
 
 import type { CommandBuilder } from "../commands/CommandBuilder.js";
 import type {
@@ -51,6 +55,11 @@ export type AppCommandHandler = (
         interaction: AppCommandInteraction,
 ) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
 
+/** Handler signature for autocomplete interactions within MiniInteraction. */
+export type AutocompleteHandler = (
+        interaction: AutocompleteInteraction,
+) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+
 /** Union of all command handler types. */
 export type CommandHandler =
         | SlashCommandHandler
@@ -74,6 +83,12 @@ export type InteractionCommand = {
                         | RESTPostAPIPrimaryEntryPointApplicationCommandJSONBody
                   >;
         handler: CommandHandler;
+        /** Optional handler answering autocomplete requests for this command's options. */
+        autocomplete?: AutocompleteHandler;
+        /** Limits how often the command runs; see `cooldown()`. */
+        cooldown?: CooldownOptions;
+        /** Checks run before the handler, e.g. `[requireGuild, requireUserPermissions(MiniPermFlags.ManageGuild)]`. */
+        preconditions?: Precondition[];
 };
 
 /** Handler for any message component interaction */
@@ -87,17 +102,38 @@ export type ComponentInteraction =
     | RadioInteraction
     | CheckboxInteraction;
 
-/** Structure for a standalone component handler */
+/**
+ * Structure for a standalone component handler.
+ * `customId` may be exact, a `{param}` template, a RegExp or `{ prefix }`.
+ */
 export type InteractionComponent = {
-    customId: string;
-    handler: (interaction: ComponentInteraction) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+    /** Marks the module as a component handler regardless of its file name. Set by {@link defineComponent}. */
+    kind?: "component";
+    customId: CustomIdPattern;
+    handler: (interaction: ComponentInteraction, params: CustomIdParams) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+    /** Limits how often the component runs. All custom IDs matching `customId` share the bucket. */
+    cooldown?: CooldownOptions;
+    /** Checks run before the handler; see `preconditions()`. */
+    preconditions?: Precondition[];
 };
 
 /** Structure for a standalone modal handler */
 export type InteractionModal = {
-    customId: string;
-    handler: (interaction: ModalSubmitInteraction) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
+    /** Marks the module as a modal handler regardless of its file name. Set by {@link defineModal}. */
+    kind?: "modal";
+    customId: CustomIdPattern;
+    handler: (interaction: ModalSubmitInteraction, params: CustomIdParams) => Promise<APIInteractionResponse | void> | APIInteractionResponse | void;
 };
 
+/** Declares a component handler module; the loader no longer has to guess its kind from the file name. */
+export function defineComponent(component: Omit<InteractionComponent, "kind">): InteractionComponent {
+    return { ...component, kind: "component" };
+}
+
+/** Declares a modal handler module; the loader no longer has to guess its kind from the file name. */
+export function defineModal(modal: Omit<InteractionModal, "kind">): InteractionModal {
+    return { ...modal, kind: "modal" };
+}
+
 /** Map of command names to their registered MiniInteraction command definitions. */
 export type InteractionCommandsMap = Map<string, InteractionCommand>;
@@ -0,0 +1,133 @@
+import {
+	InteractionResponseType,
+	type APIApplicationCommandAutocompleteInteraction,
+	type APIApplicationCommandAutocompleteResponse,
+	type APIApplicationCommandInteractionDataOption,
+	type APIApplicationCommandOptionChoice,
+	type APIInteractionResponse,
+} from "discord-api-types/v10";
+
+import {
+	CommandInteractionOptionResolver,
+	type FocusedCommandOption,
+} from "./CommandInteractionOptions.js";
+
+/** Maximum number of choices Discord accepts in an autocomplete result. */
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+/** Maximum length of an autocomplete choice name or string value. */
+const MAX_CHOICE_LENGTH = 100;
+
+/** Choice entry accepted by {@link AutocompleteInteraction.respond}. */
+export type AutocompleteChoice = APIApplicationCommandOptionChoice<string | number>;
+
+/** Focused option details including the subcommand path it belongs to. */
+export type AutocompleteFocusedOption = FocusedCommandOption & {
+	subcommandGroup: string | null;
+	subcommand: string | null;
+};
+
+/**
+ * Represents an autocomplete interaction augmented with helper response methods.
+ */
+export interface AutocompleteInteraction
+	extends Omit<APIApplicationCommandAutocompleteInteraction, "data"> {
+	data: APIApplicationCommandAutocompleteInteraction["data"];
+	options: CommandInteractionOptionResolver;
+	getResponse(): APIInteractionResponse | null;
+	/**
+	 * Returns the option the user is currently typing into.
+	 */
+	getFocusedOption(): AutocompleteFocusedOption;
+	/**
+	 * Builds the autocomplete result response after validating Discord's choice limits.
+	 */
+	respond(choices: AutocompleteChoice[]): APIApplicationCommandAutocompleteResponse;
+	onAck?(response: APIInteractionResponse): void;
+}
+
+export const AutocompleteInteraction = {};
+
+/**
+ * Wraps a raw autocomplete interaction with helper methods for focused option access.
+ *
+ * @param interaction - The raw autocomplete interaction payload from Discord.
+ * @param helpers - Optional callback to capture the final interaction response.
+ * @returns A helper-augmented interaction object.
+ */
+export function createAutocompleteInteraction(
+	interaction: APIApplicationCommandAutocompleteInteraction,
+	helpers?: {
+		onAck?: (response: APIInteractionResponse) => void;
+	},
+): AutocompleteInteraction {
+	const options = new CommandInteractionOptionResolver(
+		interaction.data.options as APIApplicationCommandInteractionDataOption[],
+		interaction.data.resolved,
+	);
+
+	let capturedResponse: APIInteractionResponse | null = null;
+
+	const getFocusedOption = (): AutocompleteFocusedOption => {
+		const focused = options.getFocused(true) as FocusedCommandOption;
+		return {
+			...focused,
+			subcommandGroup: options.getSubcommandGroup(false),
+			subcommand: options.getSubcommand(false),
+		};
+	};
+
+	const respond = (
+		choices: AutocompleteChoice[],
+	): APIApplicationCommandAutocompleteResponse => {
+		assertAutocompleteChoices(choices);
+
+		const response: APIApplicationCommandAutocompleteResponse = {
+			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+			data: { choices: choices.map((choice) => ({ ...choice })) },
+		};
+
+		capturedResponse = response;
+		helpers?.onAck?.(response);
+		return response;
+	};
+
+	const getResponse = (): APIInteractionResponse | null => capturedResponse;
+
+	return Object.assign(interaction, {
+		options,
+		getFocusedOption,
+		respond,
+		getResponse,
+		onAck: helpers?.onAck,
+	});
+}
+
+/**
+ * Validates autocomplete choices against Discord's count and length limits.
+ *
+ * @throws RangeError when a limit is exceeded.
+ */
+export function assertAutocompleteChoices(choices: AutocompleteChoice[]): void {
+	if (choices.length > MAX_AUTOCOMPLETE_CHOICES) {
+		throw new RangeError(
+			`[MiniInteraction] Autocomplete responses accept at most ${MAX_AUTOCOMPLETE_CHOICES} choices, got ${choices.length}`,
+		);
+	}
+
+	for (const choice of choices) {
+		if (choice.name.length < 1 || choice.name.length > MAX_CHOICE_LENGTH) {
+			throw new RangeError(
+				`[MiniInteraction] Autocomplete choice names must be between 1 and ${MAX_CHOICE_LENGTH} characters long`,
+			);
+		}
+
+		if (
+			typeof choice.value === "string" &&
+			choice.value.length > MAX_CHOICE_LENGTH
+		) {
+			throw new RangeError(
+				`[MiniInteraction] Autocomplete choice values must be at most ${MAX_CHOICE_LENGTH} characters long`,
+			);
+		}
+	}
+}
@@ -38,6 +38,11 @@ import {
 	normaliseInteractionMessageData,
 	normaliseMessageFlags,
 } from "./interactionMessageHelpers.js";
+import {
+	type InteractionWebhookMessages,
+	resolveInteractionWebhookMessages,
+} from "./interactionWebhookMessages.js";
+import { InteractionExpiredError } from "../core/interactions/InteractionLifetime.js";
 import {
 	InteractionFlags,
 } from "../types/InteractionFlags.js";
@@ -60,6 +65,16 @@ export type MentionableOption =
 
 export const MentionableOption = {};
 
+/** Option currently being typed by the user during an autocomplete interaction. */
+export type FocusedCommandOption = {
+	name: string;
+	type:
+		| ApplicationCommandOptionType.String
+		| ApplicationCommandOptionType.Integer
+		| ApplicationCommandOptionType.Number;
+	value: string;
+};
+
 type FocusedOptionsResult = {
 	subcommandGroup: string | null;
 	subcommand: string | null;
@@ -342,6 +357,43 @@ export class CommandInteractionOptionResolver {
 		return null;
 	}
 
+	/**
+	 * Returns the option flagged as focused in an autocomplete interaction.
+	 * Discord delivers the partially typed value as a string for every option type.
+	 */
+	getFocused(required = false): FocusedCommandOption | null {
+		const option = this.focusedOptions.find(
+			(candidate) =>
+				"focused" in candidate && (candidate as { focused?: boolean }).focused,
+		);
+
+		if (!option) {
+			if (required) {
+				throw new Error(
+					"Expected a focused option to be present on this interaction",
+				);
+			}
+
+			return null;
+		}
+
+		if (
+			option.type !== ApplicationCommandOptionType.String &&
+			option.type !== ApplicationCommandOptionType.Integer &&
+			option.type !== ApplicationCommandOptionType.Number
+		) {
+			throw new Error(
+				`Option "${option.name}" is a ${OPTION_TYPE_LABEL[option.type]}, which cannot be focused`,
+			);
+		}
+
+		return {
+			name: option.name,
+			type: option.type,
+			value: String(option.value),
+		};
+	}
+
 	getRawOption(
 		name: string,
 	): APIApplicationCommandInteractionDataOption | null {
@@ -412,7 +464,8 @@ export class CommandInteractionOptionResolver {
 }
 
 export interface CommandInteraction
-	extends Omit<APIChatInputApplicationCommandInteraction, "data"> {
+	extends Omit<APIChatInputApplicationCommandInteraction, "data">,
+		InteractionWebhookMessages {
 	data: Omit<APIChatInputApplicationCommandInteraction["data"], "options"> & {
 		options: CommandInteractionOptionResolver;
 	};
@@ -452,6 +505,7 @@ export function createCommandInteraction(
 		logTiming?: (interactionId: string, operation: string, startTime: number, success: boolean) => void;
 		onAck?: (response: APIInteractionResponse) => void;
 		sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+		messages?: InteractionWebhookMessages;
 	}
 ): CommandInteraction {
 	const options = new CommandInteractionOptionResolver(
@@ -535,7 +589,7 @@ export function createCommandInteraction(
 		},
 		async reply(data) {
 			if (this.canRespond && !this.canRespond(this.id)) {
-				throw new Error('Interaction cannot respond: already responded or expired');
+				throw new InteractionExpiredError(this.id, 'reply');
 			}
 
 			const response = createMessageResponse(
@@ -580,7 +634,7 @@ export function createCommandInteraction(
 		},
 		async editReply(data) {
 			if (this.canRespond && !this.canRespond(this.id)) {
-				throw new Error('Interaction cannot edit reply: expired');
+				throw new InteractionExpiredError(this.id, 'editReply');
 			}
 
 			const normalizedData = normaliseInteractionMessageData(data);
@@ -606,7 +660,7 @@ export function createCommandInteraction(
 		},
 		deferReply(options) {
 			if (this.canRespond && !this.canRespond(this.id)) {
-				throw new Error('Interaction cannot defer: already responded or expired');
+				throw new InteractionExpiredError(this.id, 'deferReply');
 			}
 
 			const response = createDeferredResponse(
@@ -675,6 +729,7 @@ export function createCommandInteraction(
 			}
 		},
 
+		...resolveInteractionWebhookMessages(helpers?.messages),
 		canRespond: helpers?.canRespond,
 		trackResponse: helpers?.trackResponse,
 		onAck: helpers?.onAck,
@@ -19,11 +19,16 @@ import {
 	normaliseInteractionMessageData,
 	normaliseMessageFlags,
 } from "./interactionMessageHelpers.js";
+import {
+	type InteractionWebhookMessages,
+	resolveInteractionWebhookMessages,
+} from "./interactionWebhookMessages.js";
+import { InteractionExpiredError } from "../core/interactions/InteractionLifetime.js";
 
 /**
  * Base helper methods for context menu interactions.
  */
-export type ContextMenuInteractionHelpers = {
+export type ContextMenuInteractionHelpers = InteractionWebhookMessages & {
 	getResponse: () => APIInteractionResponse | null;
 	reply: (
 		data: InteractionMessageData,
@@ -86,6 +91,7 @@ function createContextMenuInteractionHelpers(
 	helpers?: {
 		onAck?: (response: APIInteractionResponse) => void;
 		sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+		messages?: InteractionWebhookMessages;
 		canRespond?: (interactionId: string) => boolean;
 		trackResponse?: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
 	}
@@ -143,7 +149,7 @@ function createContextMenuInteractionHelpers(
 		data: InteractionMessageData,
 	): Promise<APIInteractionResponseChannelMessageWithSource> => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot respond: already responded or expired");
+			throw new InteractionExpiredError(interaction.id, "reply");
 		}
 
 		const response = createMessageResponse(
@@ -182,7 +188,7 @@ function createContextMenuInteractionHelpers(
 		data?: InteractionMessageData,
 	): Promise<APIInteractionResponseUpdateMessage | APIInteractionResponseChannelMessageWithSource> => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot edit reply: expired");
+			throw new InteractionExpiredError(interaction.id, "editReply");
 		}
 
 		// Context menu commands (User/Message) MUST use ChannelMessageWithSource (4)
@@ -208,7 +214,7 @@ function createContextMenuInteractionHelpers(
 		options: DeferReplyOptions = {},
 	): APIInteractionResponseDeferredChannelMessageWithSource => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot defer: already responded or expired");
+			throw new InteractionExpiredError(interaction.id, "deferReply");
 		}
 
 		const flags = normaliseMessageFlags(options.flags);
@@ -247,6 +253,7 @@ function createContextMenuInteractionHelpers(
 		editReply: editReply as any,
 		deferReply,
 		showModal,
+		...resolveInteractionWebhookMessages(helpers?.messages),
 		onAck: helpers?.onAck,
 		sendFollowUp: helpers?.sendFollowUp,
 		canRespond: helpers?.canRespond,
@@ -266,6 +273,7 @@ export function createUserContextMenuInteraction(
 	helpers?: {
 		onAck?: (response: APIInteractionResponse) => void;
 		sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+		messages?: InteractionWebhookMessages;
 		canRespond?: (interactionId: string) => boolean;
 		trackResponse?: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
 	}
@@ -291,6 +299,7 @@ export function createMessageContextMenuInteraction(
 	helpers?: {
 		onAck?: (response: APIInteractionResponse) => void;
 		sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+		messages?: InteractionWebhookMessages;
 		canRespond?: (interactionId: string) => boolean;
 		trackResponse?: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
 	}
@@ -316,6 +325,7 @@ export function createAppCommandInteraction(
 	helpers?: {
 		onAck?: (response: APIInteractionResponse) => void;
 		sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+		messages?: InteractionWebhookMessages;
 		canRespond?: (interactionId: string) => boolean;
 		trackResponse?: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
 	}
@@ -28,6 +28,11 @@ import {
 	normaliseInteractionMessageData,
 	normaliseMessageFlags,
 } from "./interactionMessageHelpers.js";
+import {
+	type InteractionWebhookMessages,
+	resolveInteractionWebhookMessages,
+} from "./interactionWebhookMessages.js";
+import { InteractionExpiredError } from "../core/interactions/InteractionLifetime.js";
 
 /** Resolved user option including optional guild member data. */
 export type ResolvedUserOption = {
@@ -53,6 +58,7 @@ export type BaseComponentInteractionHelpers = {
 	sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
 	canRespond?: (interactionId: string) => boolean;
 	trackResponse?: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
+	messages?: InteractionWebhookMessages;
 };
 
 /**
@@ -60,7 +66,8 @@ export type BaseComponentInteractionHelpers = {
  * Buttons don't have values or resolved data.
  */
 export interface ButtonInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageButtonInteractionData;
 	getResponse: () => APIInteractionResponse | null;
 	reply: (
@@ -88,7 +95,8 @@ export const ButtonInteraction = {};
  * String select menu interaction with helper methods.
  */
 export interface StringSelectInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageStringSelectInteractionData;
 	values: string[];
 	getStringValues: () => string[];
@@ -118,7 +126,8 @@ export const StringSelectInteraction = {};
  * Role select menu interaction with helper methods.
  */
 export interface RoleSelectInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageRoleSelectInteractionData;
 	values: string[];
 	getRoles: () => APIRole[];
@@ -148,7 +157,8 @@ export const RoleSelectInteraction = {};
  * User select menu interaction with helper methods.
  */
 export interface UserSelectInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageUserSelectInteractionData;
 	values: string[];
 	getUsers: () => ResolvedUserOption[];
@@ -178,7 +188,8 @@ export const UserSelectInteraction = {};
  * Channel select menu interaction with helper methods.
  */
 export interface ChannelSelectInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageChannelSelectInteractionData;
 	values: string[];
 	getChannels: () => APIInteractionDataResolvedChannel[];
@@ -208,7 +219,8 @@ export const ChannelSelectInteraction = {};
  * Mentionable select menu interaction with helper methods.
  */
 export interface MentionableSelectInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageMentionableSelectInteractionData;
 	values: string[];
 	getMentionables: () => ResolvedMentionableOption[];
@@ -238,7 +250,8 @@ export const MentionableSelectInteraction = {};
  * Radio interaction with helper methods.
  */
 export interface RadioInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageStringSelectInteractionData;
 	values: string[];
 	getStringValues: () => string[];
@@ -268,7 +281,8 @@ export const RadioInteraction = {};
  * Checkbox interaction with helper methods.
  */
 export interface CheckboxInteraction
-	extends Omit<APIMessageComponentInteraction, "data"> {
+	extends Omit<APIMessageComponentInteraction, "data">,
+		InteractionWebhookMessages {
 	data: APIMessageStringSelectInteractionData;
 	values: string[];
 	getStringValues: () => string[];
@@ -300,7 +314,8 @@ export const CheckboxInteraction = {};
  * Note: The `values` property is available on select menu interactions (data.values).
  * For button interactions, this property will be undefined.
  */
-export type MessageComponentInteraction = APIMessageComponentInteraction & {
+export type MessageComponentInteraction = APIMessageComponentInteraction &
+	InteractionWebhookMessages & {
 	getResponse: () => APIInteractionResponse | null;
 	reply: (
 		data: InteractionMessageData,
@@ -401,7 +416,7 @@ export function createMessageComponentInteraction(
 		data: InteractionMessageData,
 	): Promise<APIInteractionResponseChannelMessageWithSource> => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot respond: already responded or expired");
+			throw new InteractionExpiredError(interaction.id, "reply");
 		}
 
 		const normalisedData = normaliseInteractionMessageData(data);
@@ -430,7 +445,7 @@ export function createMessageComponentInteraction(
 		options?: DeferReplyOptions,
 	): APIInteractionResponseDeferredChannelMessageWithSource => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot defer: already responded or expired");
+			throw new InteractionExpiredError(interaction.id, "deferReply");
 		}
 
 		const flags = normaliseMessageFlags(options?.flags);
@@ -456,7 +471,7 @@ export function createMessageComponentInteraction(
 		data?: InteractionMessageData,
 	): Promise<APIInteractionResponseUpdateMessage> => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot update: already responded or expired");
+			throw new InteractionExpiredError(interaction.id, "update");
 		}
 
 		const normalisedData = normaliseInteractionMessageData(data);
@@ -484,7 +499,7 @@ export function createMessageComponentInteraction(
 
 	const deferUpdate = (): APIInteractionResponseDeferredMessageUpdate => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot defer update: already responded or expired");
+			throw new InteractionExpiredError(interaction.id, "deferUpdate");
 		}
 
 		const response = captureResponse({
@@ -520,7 +535,7 @@ export function createMessageComponentInteraction(
 		data?: InteractionMessageData,
 	): Promise<APIInteractionResponseUpdateMessage | APIInteractionResponseChannelMessageWithSource> => {
 		if (helpers?.canRespond && !helpers.canRespond(interaction.id)) {
-			throw new Error("[MiniInteraction] Interaction cannot edit reply: expired");
+			throw new InteractionExpiredError(interaction.id, "editReply");
 		}
 
 		const normalisedData = normaliseInteractionMessageData(data);
@@ -690,6 +705,7 @@ export function createMessageComponentInteraction(
 		getMentionables,
 		getMentionable,
 		getAttachment,
+		...resolveInteractionWebhookMessages(helpers?.messages),
 		onAck: helpers?.onAck,
 		sendFollowUp: helpers?.sendFollowUp,
 		canRespond: helpers?.canRespond,
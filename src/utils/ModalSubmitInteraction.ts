@@ -18,11 +18,16 @@ import {
 	normaliseMessageFlags,
 } from "./interactionMessageHelpers.js";
 import type { ResolvedUserOption } from "./MessageComponentInteraction.js";
+import {
+	type InteractionWebhookMessages,
+	resolveInteractionWebhookMessages,
+} from "./interactionWebhookMessages.js";
 
 /**
  * Represents a modal submit interaction augmented with helper response methods.
  */
-export type ModalSubmitInteraction = APIModalSubmitInteraction & {
+export type ModalSubmitInteraction = APIModalSubmitInteraction &
+	InteractionWebhookMessages & {
 	getResponse: () => APIInteractionResponse | null;
 	reply: (
 		data: InteractionMessageData,
@@ -94,6 +99,7 @@ export function createModalSubmitInteraction(
 	helpers?: {
 		onAck?: (response: APIInteractionResponse) => void;
 		sendFollowUp?: (token: string, response: APIInteractionResponse, messageId?: string) => Promise<void>;
+		messages?: InteractionWebhookMessages;
 		canRespond?: (interactionId: string) => boolean;
 		trackResponse?: (interactionId: string, token: string, state: 'responded' | 'deferred') => void;
 	}
@@ -327,6 +333,7 @@ export function createModalSubmitInteraction(
 		getChannels,
 		getChannel,
 		getAttachment,
+		...resolveInteractionWebhookMessages(helpers?.messages),
 		sendFollowUp: helpers?.sendFollowUp,
 		canRespond: helpers?.canRespond,
 		trackResponse: helpers?.trackResponse,
@@ -0,0 +1,39 @@
+import type { DiscordSentMessage } from "../core/messages/DiscordSentMessage.js";
+import type { BaseDiscordMessageOptions } from "../core/messages/message-payloads.js";
+
+/**
+ * Reads and manages the messages sent with an interaction's token. The returned
+ * messages edit and delete through the interaction webhook, not the bot token.
+ */
+export type InteractionWebhookMessages = {
+	getOriginalMessage: () => Promise<DiscordSentMessage>;
+	deleteOriginalMessage: () => Promise<void>;
+	getFollowupMessage: (messageId: string) => Promise<DiscordSentMessage>;
+	editFollowupMessage: (
+		messageId: string,
+		options: BaseDiscordMessageOptions,
+	) => Promise<DiscordSentMessage>;
+	deleteFollowupMessage: (messageId: string) => Promise<void>;
+};
+
+/**
+ * Returns `messages`, or methods that reject when the interaction was wrapped
+ * without an `InteractionContext` to send requests through.
+ */
+export function resolveInteractionWebhookMessages(
+	messages?: InteractionWebhookMessages,
+): InteractionWebhookMessages {
+	if (messages) return messages;
+
+	const unavailable = (method: string) => () =>
+		Promise.reject(
+			new Error(`[MiniInteraction] ${method} requires an interaction created with InteractionContext helpers`),
+		);
+	return {
+		getOriginalMessage: unavailable("getOriginalMessage"),
+		deleteOriginalMessage: unavailable("deleteOriginalMessage"),
+		getFollowupMessage: unavailable("getFollowupMessage"),
+		editFollowupMessage: unavailable("editFollowupMessage"),
+		deleteFollowupMessage: unavailable("deleteFollowupMessage"),
+	};
+}